@@ -0,0 +1,6 @@
+-- Track how many times each row has been queued for analysis
+ALTER TABLE feedback ADD COLUMN analysis_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE feedback ADD COLUMN analysis_queued_at INTEGER;
+
+-- Index for the stuck/failed analysis sweeper
+CREATE INDEX IF NOT EXISTS idx_feedback_analysis_status ON feedback(analysis_status);
@@ -0,0 +1,2 @@
+-- Composite index for cursor pagination ordered by (created_at, id)
+CREATE INDEX IF NOT EXISTS idx_feedback_created_at_id ON feedback(created_at, id);
@@ -0,0 +1,24 @@
+-- Full-text index over feedback text and AI summaries (external content table)
+CREATE VIRTUAL TABLE IF NOT EXISTS feedback_fts USING fts5(
+    text,
+    summary,
+    content='feedback',
+    content_rowid='id'
+);
+
+-- Keep the index in sync on insert, analysis update and delete
+CREATE TRIGGER IF NOT EXISTS feedback_fts_insert AFTER INSERT ON feedback BEGIN
+    INSERT INTO feedback_fts(rowid, text, summary) VALUES (new.id, new.text, new.summary);
+END;
+
+CREATE TRIGGER IF NOT EXISTS feedback_fts_delete AFTER DELETE ON feedback BEGIN
+    INSERT INTO feedback_fts(feedback_fts, rowid, text, summary) VALUES ('delete', old.id, old.text, old.summary);
+END;
+
+CREATE TRIGGER IF NOT EXISTS feedback_fts_update AFTER UPDATE OF text, summary ON feedback BEGIN
+    INSERT INTO feedback_fts(feedback_fts, rowid, text, summary) VALUES ('delete', old.id, old.text, old.summary);
+    INSERT INTO feedback_fts(rowid, text, summary) VALUES (new.id, new.text, new.summary);
+END;
+
+-- Index rows that existed before this migration
+INSERT INTO feedback_fts(feedback_fts) VALUES ('rebuild');
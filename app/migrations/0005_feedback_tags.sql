@@ -0,0 +1,17 @@
+-- Normalized tag storage: one row per (feedback, tag), tags lowercased and trimmed
+CREATE TABLE IF NOT EXISTS feedback_tags (
+    feedback_id INTEGER NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (feedback_id, tag)
+);
+
+-- Tag filter and top-tag stats look rows up by tag
+CREATE INDEX IF NOT EXISTS idx_feedback_tags_tag ON feedback_tags(tag, feedback_id);
+
+-- Backfill from the JSON tags column
+INSERT OR IGNORE INTO feedback_tags (feedback_id, tag)
+SELECT feedback.id, LOWER(TRIM(json_each.value))
+FROM feedback, json_each(feedback.tags)
+WHERE json_valid(feedback.tags)
+  AND json_each.type = 'text'
+  AND TRIM(json_each.value) != '';
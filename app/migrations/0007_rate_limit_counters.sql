@@ -0,0 +1,10 @@
+-- Fixed-window rate limit counters (used when RATE_LIMIT_BACKEND is "d1")
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+    bucket TEXT NOT NULL,
+    window_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (bucket, window_start)
+);
+
+-- Used by the scheduled cleanup of expired windows
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_window_start ON rate_limit_counters(window_start);
@@ -0,0 +1,13 @@
+-- Where a feedback row came from when it was ingested from another system
+ALTER TABLE feedback ADD COLUMN author TEXT;
+ALTER TABLE feedback ADD COLUMN external_id TEXT;
+ALTER TABLE feedback ADD COLUMN external_url TEXT;
+
+-- Webhook deliveries already ingested, so redeliveries don't create duplicate rows
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    provider TEXT NOT NULL,
+    delivery_id TEXT NOT NULL,
+    feedback_id INTEGER REFERENCES feedback(id) ON DELETE SET NULL,
+    received_at INTEGER NOT NULL,
+    PRIMARY KEY (provider, delivery_id)
+);
@@ -0,0 +1,2 @@
+-- Source-specific details (e.g. an email's subject) as a JSON object
+ALTER TABLE feedback ADD COLUMN metadata TEXT;
@@ -0,0 +1,15 @@
+-- Configurable inbound webhook connectors, each served at POST /api/ingest/:slug.
+-- The secret is kept in plaintext because HMAC verification needs it.
+CREATE TABLE IF NOT EXISTS connectors (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    slug TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    source TEXT NOT NULL,
+    auth_scheme TEXT NOT NULL CHECK (auth_scheme IN ('shared_secret', 'hmac_sha256')),
+    auth_header TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    mappings TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
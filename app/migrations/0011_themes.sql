@@ -0,0 +1,18 @@
+-- Themes found by the clustering job. The centroid (JSON array) lets later runs
+-- recognise the same theme, so ids and names stay stable across runs.
+CREATE TABLE IF NOT EXISTS themes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    centroid TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_seen_at INTEGER NOT NULL
+);
+
+-- Each clustered feedback row belongs to at most one theme
+CREATE TABLE IF NOT EXISTS feedback_themes (
+    feedback_id INTEGER PRIMARY KEY REFERENCES feedback(id) ON DELETE CASCADE,
+    theme_id INTEGER NOT NULL REFERENCES themes(id) ON DELETE CASCADE,
+    similarity REAL NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_themes_theme ON feedback_themes(theme_id);
@@ -0,0 +1,45 @@
+-- Versioned analyzer configurations. scope is a feedback source, or '*' for the default
+-- used by sources without their own; exactly one version per scope is active at a time.
+CREATE TABLE IF NOT EXISTS analyzer_configs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    scope TEXT NOT NULL DEFAULT '*',
+    version INTEGER NOT NULL,
+    model TEXT NOT NULL,
+    prompt_template TEXT NOT NULL,
+    max_tokens INTEGER NOT NULL,
+    temperature REAL,
+    active INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    activated_at INTEGER,
+    UNIQUE (scope, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analyzer_configs_active ON analyzer_configs(scope) WHERE active = 1;
+
+-- Which configuration produced each row's analysis
+ALTER TABLE feedback ADD COLUMN analyzer_config_id INTEGER REFERENCES analyzer_configs(id);
+ALTER TABLE feedback ADD COLUMN prompt_version INTEGER;
+
+-- Version 1 is the prompt and model the analyzer used before configurations existed
+INSERT INTO analyzer_configs (scope, version, model, prompt_template, max_tokens, temperature, active, created_at, activated_at)
+VALUES (
+    '*',
+    1,
+    '@cf/meta/llama-3.1-8b-instruct',
+    'Analyze the following feedback and return ONLY valid JSON with no additional text:
+{
+  "sentiment": "positive|neutral|negative",
+  "urgency": 1-5,
+  "tags": ["tag1", "tag2", "tag3", "tag4", "tag5"],
+  "summary": "1-2 line summary"
+}
+
+Feedback: {{text}}
+
+Return only the JSON object:',
+    300,
+    NULL,
+    1,
+    CAST(strftime('%s', 'now') AS INTEGER) * 1000,
+    CAST(strftime('%s', 'now') AS INTEGER) * 1000
+);
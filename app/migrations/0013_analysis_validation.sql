@@ -0,0 +1,4 @@
+-- Set when the model's output failed schema validation even after a repair prompt and
+-- defaults were substituted for the invalid fields, which are listed in analysis_validation_errors
+ALTER TABLE feedback ADD COLUMN analysis_defaulted INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE feedback ADD COLUMN analysis_validation_errors TEXT;
@@ -0,0 +1,9 @@
+-- Per-detector counts of PII redacted from text at ingestion (JSON object, e.g. {"email":1}); NULL when nothing matched
+ALTER TABLE feedback ADD COLUMN redaction_counts TEXT;
+
+-- Unredacted text, kept only when PII_STORE_ORIGINAL is "true". A separate table keeps it out of
+-- every feedback read except the admin-only single-row lookup.
+CREATE TABLE IF NOT EXISTS feedback_originals (
+    feedback_id INTEGER PRIMARY KEY REFERENCES feedback(id) ON DELETE CASCADE,
+    text TEXT NOT NULL
+);
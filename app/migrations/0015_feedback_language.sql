@@ -0,0 +1,5 @@
+-- Detected language (ISO 639-1) and, for non-English rows, the English translation analysis ran on
+ALTER TABLE feedback ADD COLUMN language TEXT;
+ALTER TABLE feedback ADD COLUMN text_translated TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_language ON feedback(language);
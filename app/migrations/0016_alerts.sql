@@ -0,0 +1,40 @@
+-- Alert rules: conditions are ANDed; a rule with a volume threshold fires when that many analyzed
+-- rows matching its conditions arrive within the window, otherwise on each matching row.
+-- secret signs webhook channel payloads and is NULL for the other channels.
+CREATE TABLE IF NOT EXISTS alert_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    sentiment TEXT,
+    min_urgency INTEGER,
+    source TEXT,
+    tag TEXT,
+    theme_id INTEGER REFERENCES themes(id) ON DELETE SET NULL,
+    volume_threshold INTEGER,
+    volume_window_minutes INTEGER,
+    channel TEXT NOT NULL CHECK (channel IN ('slack', 'webhook', 'email')),
+    target TEXT NOT NULL,
+    secret TEXT,
+    cooldown_minutes INTEGER NOT NULL DEFAULT 60,
+    last_triggered_at INTEGER,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+-- One row per notification; pending rows are retried by the cron sweeper until sent or failed
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    rule_id INTEGER NOT NULL REFERENCES alert_rules(id) ON DELETE CASCADE,
+    feedback_id INTEGER REFERENCES feedback(id) ON DELETE SET NULL,
+    channel TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    next_attempt_at INTEGER,
+    delivered_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_rule ON alert_deliveries(rule_id, feedback_id);
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_due ON alert_deliveries(status, next_attempt_at);
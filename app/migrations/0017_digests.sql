@@ -0,0 +1,17 @@
+-- AI-written digests, one per period. period_end is exclusive; content and stats are JSON
+-- (the model's narrative and the numbers it was written from). ai_model is NULL when the
+-- model's output was unusable and the digest was built from the stats alone.
+CREATE TABLE IF NOT EXISTS digests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    period TEXT NOT NULL CHECK (period IN ('daily', 'weekly')),
+    period_start INTEGER NOT NULL,
+    period_end INTEGER NOT NULL,
+    headline TEXT NOT NULL,
+    content TEXT NOT NULL,
+    stats TEXT NOT NULL,
+    ai_model TEXT,
+    created_at INTEGER NOT NULL,
+    delivered_at INTEGER,
+    delivery_error TEXT,
+    UNIQUE (period, period_start)
+);
@@ -0,0 +1,26 @@
+-- The model's own output is kept beside the reviewed values in sentiment, urgency, tags and summary.
+-- reviewed_at is set when someone confirms or corrects a row; accuracy is measured over reviewed rows.
+ALTER TABLE feedback ADD COLUMN ai_sentiment TEXT;
+ALTER TABLE feedback ADD COLUMN ai_urgency INTEGER;
+ALTER TABLE feedback ADD COLUMN ai_tags TEXT;
+ALTER TABLE feedback ADD COLUMN ai_summary TEXT;
+ALTER TABLE feedback ADD COLUMN reviewed_by TEXT;
+ALTER TABLE feedback ADD COLUMN reviewed_at INTEGER;
+
+UPDATE feedback SET ai_sentiment = sentiment, ai_urgency = urgency, ai_tags = tags, ai_summary = summary
+WHERE analysis_status = 'done';
+
+CREATE INDEX IF NOT EXISTS idx_feedback_reviewed_at ON feedback(reviewed_at);
+
+-- One row per changed field per correction; values are JSON encoded
+CREATE TABLE IF NOT EXISTS feedback_corrections (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feedback_id INTEGER NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+    field TEXT NOT NULL CHECK (field IN ('sentiment', 'urgency', 'tags', 'summary')),
+    previous_value TEXT,
+    value TEXT,
+    corrected_by TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_corrections_feedback_id ON feedback_corrections(feedback_id);
@@ -0,0 +1,32 @@
+-- Triage lifecycle: new -> triaged -> in_progress -> resolved | wont_fix. resolved_at is set when an item
+-- is closed (resolved or won't fix) and cleared when it is reopened.
+ALTER TABLE feedback ADD COLUMN status TEXT NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'triaged', 'in_progress', 'resolved', 'wont_fix'));
+ALTER TABLE feedback ADD COLUMN assignee TEXT;
+ALTER TABLE feedback ADD COLUMN resolved_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_status ON feedback(status);
+CREATE INDEX IF NOT EXISTS idx_feedback_assignee ON feedback(assignee);
+
+-- Every status change, with who made it
+CREATE TABLE IF NOT EXISTS feedback_status_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feedback_id INTEGER NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_status_history_feedback_id ON feedback_status_history(feedback_id);
+
+-- Internal notes on a feedback item, never shown to the person who sent it
+CREATE TABLE IF NOT EXISTS feedback_notes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feedback_id INTEGER NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    author TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_notes_feedback_id ON feedback_notes(feedback_id);
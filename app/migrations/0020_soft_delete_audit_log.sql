@@ -0,0 +1,30 @@
+-- Deleting feedback sets a tombstone; the purge job removes the row for good after the retention period
+ALTER TABLE feedback ADD COLUMN deleted_at INTEGER;
+ALTER TABLE feedback ADD COLUMN deleted_by TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_deleted_at ON feedback(deleted_at);
+
+-- Deletes, restores, edits and admin actions. actor is the API key name ("system" for scheduled jobs)
+-- and actor_key_id is NULL for ADMIN_API_KEY and the system. details is JSON.
+CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    action TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    actor_key_id INTEGER,
+    target_type TEXT NOT NULL,
+    target_id INTEGER,
+    details TEXT,
+    created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action);
+
+-- Append-only: entries can't be changed or removed
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
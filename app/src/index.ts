@@ -2,14 +2,36 @@
  * Feedback Radar - Cloudflare Workers App
  * 
  * Features:
- * - Submit feedback via POST /api/feedback
- * - Analyze feedback using Workers AI (sentiment, tags, summary, urgency)
+ * - Submit feedback via POST /api/feedback, bulk import CSV/NDJSON via POST /api/feedback/import
+ * - Ingest GitHub issues, comments and discussions via a signed webhook at POST /api/ingest/github
+ * - Turn support mail into feedback via an Email Routing email() handler
+ * - Configurable webhook connectors (D1 registry, JSON path field mappings) at POST /api/ingest/:connector
+ * - Analyze feedback using Workers AI (sentiment, tags, summary, urgency), validated against a JSON schema
+ * - Versioned analyzer prompts and model settings per source, rolled forward/back via /api/analyzer/configs
+ * - Run analysis asynchronously in a Queues consumer (retry + dead-letter queue)
+ * - List feedback with filters and cursor pagination via GET /api/feedback
+ * - Full-text search (?q=) over feedback text and summaries using D1 FTS5
+ * - Semantic search and "similar feedback" over Workers AI embeddings stored in Vectorize
+ * - Hourly theme clustering of recent embeddings, named by the model, via GET /api/themes and ?theme= filters
+ * - Daily and weekly AI-written digests via GET /api/digests (JSON or Markdown), optionally POSTed to a webhook
+ * - Stream every matching row as CSV, NDJSON or JSON via GET /api/feedback/export
+ * - Fetch a single item (optionally long-polling for analysis) via GET /api/feedback/:id
+ * - Re-queue failed or stuck analysis via POST /api/feedback/:id/reanalyze and a cron sweeper
+ * - Reviewer corrections via PATCH /api/feedback/:id, with model/reviewer agreement at GET /api/stats/accuracy
+ * - Triage workflow: status, assignee, status history and internal notes per item, via PATCH /api/feedback/:id
+ * - Soft delete with POST /api/feedback/:id/restore and a purge job; an append-only audit log at GET /api/audit
  * - Store in D1 database
  * - Emit Analytics Engine events
  * - Dashboard UI at GET /
- * - Stats API at GET /api/stats
+ * - API key authentication (Authorization: Bearer <key>) with ingest/read/admin scopes
+ * - Stats API at GET /api/stats, per-day/week trends at GET /api/stats/timeseries
+ * - Per-key, per-IP and per-source rate limits on ingestion (Durable Object or D1 counters)
  */
 
+import { DurableObject } from 'cloudflare:workers';
+import { EmailMessage } from 'cloudflare:email';
+import PostalMime from 'postal-mime';
+
 interface FeedbackRow {
 	id?: number;
 	source: string;
@@ -20,375 +42,4969 @@ interface FeedbackRow {
 	tags?: string;
 	summary?: string;
 	ai_model?: string;
+	analyzer_config_id?: number;
+	prompt_version?: number;
+	analysis_defaulted?: number;
+	analysis_validation_errors?: string; // JSON array
 	ai_latency_ms?: number;
 	analysis_status: string;
 	analysis_error?: string;
+	analysis_attempts: number;
+	analysis_queued_at?: number;
+	author?: string;
+	external_id?: string;
+	external_url?: string;
+	metadata?: string; // JSON object
+	redaction_counts?: string; // JSON object of detector -> count
+	language?: string; // ISO 639-1 code, null when undetected
+	text_translated?: string; // English translation analysis ran on, null for English rows
+	// The model's output; sentiment, urgency, tags and summary hold a reviewer's values once corrected
+	ai_sentiment?: string;
+	ai_urgency?: number;
+	ai_tags?: string;
+	ai_summary?: string;
+	reviewed_by?: string; // API key name of the last reviewer
+	reviewed_at?: number;
+	status: TriageStatus;
+	assignee?: string;
+	resolved_at?: number; // set while the status is resolved or wont_fix
+	deleted_at?: number; // tombstone; the row is hidden until restored or purged
+	deleted_by?: string;
+}
+
+type TriageStatus = 'new' | 'triaged' | 'in_progress' | 'resolved' | 'wont_fix';
+
+type AuditAction =
+	| 'feedback.delete'
+	| 'feedback.restore'
+	| 'feedback.purge'
+	| 'feedback.update'
+	| 'feedback.note'
+	| 'feedback.reanalyze'
+	| 'api_key.create'
+	| 'api_key.revoke'
+	| 'connector.create'
+	| 'connector.update'
+	| 'connector.delete'
+	| 'alert_rule.create'
+	| 'alert_rule.update'
+	| 'alert_rule.delete'
+	| 'analyzer_config.create'
+	| 'analyzer_config.activate'
+	| 'analyzer_config.deactivate'
+	| 'digest.generate';
+
+interface AuditLogRow {
+	id: number;
+	action: AuditAction;
+	actor: string; // API key name, or "system" for scheduled jobs
+	actor_key_id: number | null;
+	target_type: string;
+	target_id: number | null;
+	details: string | null; // JSON object
+	created_at: number;
+}
+
+interface FeedbackStatusChangeRow {
+	id: number;
+	feedback_id: number;
+	from_status: TriageStatus;
+	to_status: TriageStatus;
+	changed_by: string;
+	created_at: number;
+}
+
+interface FeedbackNoteRow {
+	id: number;
+	feedback_id: number;
+	body: string;
+	author: string;
+	created_at: number;
+}
+
+interface FeedbackCorrectionRow {
+	id: number;
+	feedback_id: number;
+	field: CorrectableField;
+	previous_value: string | null; // JSON
+	value: string | null; // JSON
+	corrected_by: string;
+	created_at: number;
+}
+
+type CorrectableField = 'sentiment' | 'urgency' | 'tags' | 'summary';
+
+// How many reviewed rows kept the model's value, per field
+interface AccuracyCounts extends Record<CorrectableField, number> {
+	reviewed: number;
+}
+
+// A feedback row to create from an external system (webhooks, email, connectors)
+interface NewFeedback {
+	source: string;
+	text: string;
+	created_at?: number;
+	author?: string | null;
+	external_id?: string | null;
+	external_url?: string | null;
+	metadata?: Record<string, unknown> | null;
+}
+
+// The parts of a GitHub issue, comment or discussion we read
+interface GitHubItem {
+	id: number;
+	title?: string;
+	body?: string | null;
+	created_at?: string;
+	html_url?: string;
+	user?: { login?: string } | null;
+}
+
+// The fields of a GitHub webhook payload used for ingestion
+interface GitHubIssuePayload {
+	action?: string;
+	issue?: GitHubItem;
+	comment?: GitHubItem;
+	discussion?: GitHubItem;
+	repository?: { full_name?: string };
+	sender?: { login?: string; type?: string };
+}
+
+interface AIAnalysis {
+	sentiment: 'positive' | 'neutral' | 'negative';
+	urgency: number;
+	tags: string[];
+	summary: string;
+}
+
+type PiiDetector = 'email' | 'phone' | 'credit_card' | 'ip' | 'secret';
+
+interface PiiRedaction {
+	text: string;
+	counts: Partial<Record<PiiDetector, number>>;
+}
+
+// A validated analysis; defaulted_fields lists fields replaced with defaults after the repair prompt also failed
+interface AnalysisResult {
+	analysis: AIAnalysis;
+	repaired: boolean;
+	defaulted_fields: string[];
+	validation_errors: string[];
+}
+
+// The subset of JSON Schema used for model output contracts
+interface JsonSchema {
+	type?: 'object' | 'array' | 'string' | 'integer' | 'number';
+	enum?: unknown[];
+	required?: string[];
+	properties?: Record<string, JsonSchema>;
+	additionalProperties?: boolean;
+	items?: JsonSchema;
+	minItems?: number;
+	maxItems?: number;
+	minLength?: number;
+	maxLength?: number;
+	minimum?: number;
+	maximum?: number;
+}
+
+// A versioned prompt and model configuration; scope is a source or '*' for the default
+interface AnalyzerConfigRow {
+	id: number;
+	scope: string;
+	version: number;
+	model: string;
+	prompt_template: string; // {{text}} is replaced with the feedback text
+	max_tokens: number;
+	temperature: number | null;
+	active: number;
+	created_at: number;
+	activated_at: number | null;
+}
+
+interface FeedbackSearchRow extends FeedbackRow {
+	rank: number;
+	text_snippet: string;
+	summary_snippet: string | null;
+}
+
+// Newest-first pages resume after (created_at, id); relevance-ranked search pages resume at an offset
+type FeedbackCursor = { created_at: number; id: number } | { offset: number };
+
+interface FeedbackPage {
+	items: FeedbackRow[];
+	next_cursor: string | null;
+}
+
+interface SqlFilter {
+	where: string;
+	binds: any[];
+	error?: string;
+}
+
+interface TimeseriesBucket {
+	start: string;
+	total: number;
+	sentiment: Record<string, number>;
+	urgency: Record<string, number>;
+	source: Record<string, number>;
+}
+
+type ApiScope = 'ingest' | 'read' | 'review' | 'admin';
+
+interface ApiKeyRow {
+	id: number;
+	name: string;
+	key_prefix: string;
+	key_hash: string;
+	scopes: string;
+	created_at: number;
+	last_used_at?: number;
+	revoked_at?: number;
+}
+
+// The caller behind a request: a stored API key, or the ADMIN_API_KEY secret (id null)
+interface ApiPrincipal {
+	id: number | null;
+	name: string;
+	scopes: ApiScope[];
+}
+
+type RateLimitDimension = 'key' | 'ip' | 'source';
+
+interface RateLimitResult {
+	allowed: boolean;
+	retry_after_seconds: number;
+}
+
+interface ImportRow {
+	line: number;
+	source: string;
+	text: string;
+	created_at: number;
+}
+
+interface ImportError {
+	line: number;
+	error: string;
+}
+
+type ExportFormat = 'csv' | 'ndjson' | 'json';
+
+type ConnectorAuthScheme = 'shared_secret' | 'hmac_sha256';
+
+// JSON paths (e.g. "ticket.requester.email", "answers[0].text") into a connector's payload.
+// Several text paths are joined with blank lines, e.g. a subject and a description.
+interface ConnectorMappings {
+	text: string | string[];
+	source?: string;
+	author?: string;
+	external_id?: string;
+	external_url?: string;
+	created_at?: string;
+}
+
+interface ConnectorRow {
+	id: number;
+	slug: string;
+	name: string;
+	source: string;
+	auth_scheme: ConnectorAuthScheme;
+	auth_header: string;
+	secret: string;
+	mappings: string; // JSON ConnectorMappings
+	enabled: number;
+	created_at: number;
+	updated_at: number;
+}
+
+// Connector fields an admin can set on create or update
+interface ConnectorInput {
+	slug?: string;
+	name?: string;
+	source?: string;
+	auth_scheme?: ConnectorAuthScheme;
+	auth_header?: string;
+	mappings?: ConnectorMappings;
+	enabled?: boolean;
+}
+
+interface AnalysisMessage {
+	feedback_id: number;
+}
+
+// The part of the Vectorize binding we use, so tests can swap in an in-memory index
+type VectorIndex = Pick<Vectorize, 'upsert' | 'query' | 'getByIds' | 'deleteByIds'>;
+
+interface SimilarFeedback extends FeedbackRow {
+	score: number;
+}
+
+interface ThemeRow {
+	id: number;
+	name: string;
+	centroid: string; // JSON number[]
+	created_at: number;
+	last_seen_at: number;
+}
+
+// A cluster built by the theme job; members are feedback rows in clustering order
+interface ThemeCluster {
+	centroid: number[];
+	members: { id: number; vector: number[]; summary?: string; text: string; tags?: string }[];
+}
+
+type AlertChannel = 'slack' | 'webhook' | 'email';
+
+interface AlertRuleRow {
+	id: number;
+	name: string;
+	enabled: number;
+	sentiment: string | null;
+	min_urgency: number | null;
+	source: string | null;
+	tag: string | null;
+	theme_id: number | null;
+	volume_threshold: number | null;
+	volume_window_minutes: number | null;
+	channel: AlertChannel;
+	target: string; // Slack or webhook URL, or an email address
+	secret: string | null;
+	cooldown_minutes: number;
+	last_triggered_at: number | null;
+	created_at: number;
+	updated_at: number;
+}
+
+// Alert rule fields an admin can set on create or update; null clears a condition
+interface AlertRuleInput {
+	name?: string;
+	enabled?: boolean;
+	sentiment?: string | null;
+	min_urgency?: number | null;
+	source?: string | null;
+	tag?: string | null;
+	theme_id?: number | null;
+	volume_threshold?: number | null;
+	volume_window_minutes?: number | null;
+	channel?: AlertChannel;
+	target?: string;
+	cooldown_minutes?: number;
+}
+
+type DigestPeriod = 'daily' | 'weekly';
+
+interface DigestRow {
+	id: number;
+	period: DigestPeriod;
+	period_start: number;
+	period_end: number; // exclusive
+	headline: string;
+	content: string; // JSON DigestContent
+	stats: string; // JSON DigestStats
+	ai_model: string | null; // null when the model's output was unusable and the digest was built from stats alone
+	created_at: number;
+	delivered_at: number | null;
+	delivery_error: string | null;
+}
+
+interface DigestContent {
+	headline: string;
+	summary: string;
+	top_themes: string[];
+	got_worse: string[];
+	notable_quotes: { feedback_id: number; source: string; quote: string; why: string }[];
+	new_issues: string[];
+}
+
+// A digest period's numbers, each compared with the period before it
+interface DigestStats {
+	total: number;
+	previous_total: number;
+	sentiment_counts: Record<string, number>;
+	previous_sentiment_counts: Record<string, number>;
+	themes: { id: number; name: string; size: number; negative: number; previous_size: number }[];
+	tags: { tag: string; count: number; negative: number; previous_count: number }[];
+	new_themes: string[];
+}
+
+interface DigestQuoteCandidate {
+	id: number;
+	source: string;
+	sentiment: string;
+	urgency: number;
+	text: string;
+}
+
+interface AlertDeliveryRow {
+	id: number;
+	rule_id: number;
+	feedback_id: number | null;
+	channel: AlertChannel;
+	payload: string; // JSON AlertNotification
+	status: 'pending' | 'sent' | 'failed';
+	attempts: number;
+	last_error: string | null;
+	created_at: number;
+	next_attempt_at: number | null;
+	delivered_at: number | null;
 }
 
-interface AIAnalysis {
-	sentiment: 'positive' | 'neutral' | 'negative';
-	urgency: number;
-	tags: string[];
-	summary: string;
+// What a channel is asked to send; volume alerts carry the count and the row that crossed the threshold
+interface AlertNotification {
+	rule: { id: number; name: string };
+	kind: 'match' | 'volume';
+	feedback: Pick<FeedbackRow, 'source' | 'text' | 'sentiment' | 'urgency' | 'summary' | 'external_url'> & { id: number; tags: string[] };
+	count: number | null;
+	window_minutes: number | null;
+	triggered_at: number;
+}
+
+// Model for internal prompts such as theme naming; analysis uses the active analyzer config
+const AI_MODEL = '@cf/meta/llama-3.1-8b-instruct';
+
+// The AIAnalysis contract the model's output must satisfy
+const ANALYSIS_JSON_SCHEMA = {
+	type: 'object',
+	required: ['sentiment', 'urgency', 'tags', 'summary'],
+	additionalProperties: false,
+	properties: {
+		sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+		urgency: { type: 'integer', minimum: 1, maximum: 5 },
+		tags: { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 5 },
+		summary: { type: 'string', minLength: 1, maxLength: 500 },
+	},
+} satisfies JsonSchema;
+
+// Fields reviewers can correct with PATCH /api/feedback/:id
+const CORRECTABLE_FIELDS: CorrectableField[] = ['sentiment', 'urgency', 'tags', 'summary'];
+
+// Triage lifecycle; resolved and wont_fix close an item, the others leave it open
+const TRIAGE_STATUSES: TriageStatus[] = ['new', 'triaged', 'in_progress', 'resolved', 'wont_fix'];
+const CLOSED_TRIAGE_STATUSES: TriageStatus[] = ['resolved', 'wont_fix'];
+const ASSIGNEE_MAX_LENGTH = 100;
+const NOTE_MAX_LENGTH = 5000;
+
+// PATCH /api/feedback/:id accepts analysis corrections and a triage status; assignee is checked on its own since it may be null
+const FEEDBACK_PATCH_SCHEMA = {
+	type: 'object',
+	additionalProperties: false,
+	properties: { ...ANALYSIS_JSON_SCHEMA.properties, status: { type: 'string', enum: TRIAGE_STATUSES } },
+} satisfies JsonSchema;
+
+// Substituted for fields that are still invalid after the repair prompt
+const ANALYSIS_DEFAULTS: AIAnalysis = { sentiment: 'neutral', urgency: 3, tags: [], summary: 'No summary available' };
+
+// Workers AI models that accept response_format (JSON mode); other models rely on the prompt alone
+const JSON_MODE_MODELS = [
+	'@cf/meta/llama-3.1-8b-instruct',
+	'@cf/meta/llama-3.1-8b-instruct-fast',
+	'@cf/meta/llama-3.1-70b-instruct',
+	'@cf/meta/llama-3.3-70b-instruct-fp8-fast',
+	'@cf/meta/llama-3-8b-instruct',
+	'@cf/meta/llama-3.2-11b-vision-instruct',
+	'@hf/nousresearch/hermes-2-pro-mistral-7b',
+	'@cf/deepseek-ai/deepseek-r1-distill-qwen-32b',
+];
+
+const ANALYZER_DEFAULT_SCOPE = '*';
+const ANALYZER_TEXT_PLACEHOLDER = '{{text}}';
+const ANALYZER_MAX_TOKENS_LIMIT = 4096;
+const ANALYZER_MAX_TEMPERATURE = 5;
+
+// Non-English feedback is translated to English before analysis and embedding
+const TRANSLATION_MODEL = '@cf/meta/m2m100-1.2b';
+const TRANSLATION_TARGET_LANGUAGE = 'en';
+// Letters of one of these scripts make up at least this share of the text to detect its language.
+// Kana is checked before Han characters since Japanese mixes in kanji.
+const LANGUAGE_SCRIPT_MIN_SHARE = 0.3;
+const LANGUAGE_SCRIPTS: [string, RegExp][] = [
+	['ja', /[\u3040-\u30ff]/g],
+	['zh', /[\u4e00-\u9fff]/g],
+	['ko', /[\uac00-\ud7af]/g],
+	['ru', /[\u0400-\u04ff]/g],
+	['ar', /[\u0600-\u06ff]/g],
+	['he', /[\u0590-\u05ff]/g],
+	['el', /[\u0370-\u03ff]/g],
+	['th', /[\u0e00-\u0e7f]/g],
+	['hi', /[\u0900-\u097f]/g],
+];
+// Latin-script text is scored on common function words; another language needs at least this many hits, and more than English
+const LANGUAGE_MIN_STOPWORD_HITS = 2;
+const LANGUAGE_STOPWORDS: Record<string, string[]> = {
+	en: ['the', 'and', 'is', 'it', 'to', 'of', 'in', 'that', 'this', 'for', 'with', 'not', 'you', 'was', 'are', 'but', 'on', 'my', 'have', 'very'],
+	es: ['el', 'la', 'los', 'las', 'que', 'de', 'y', 'es', 'en', 'un', 'una', 'por', 'para', 'con', 'no', 'muy', 'pero', 'se', 'lo', 'mi'],
+	fr: ['le', 'la', 'les', 'et', 'est', 'un', 'une', 'des', 'que', 'pas', 'pour', 'dans', 'ce', 'très', 'avec', 'je', 'il', 'mais', 'sur', 'du'],
+	de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'ich', 'zu', 'mit', 'es', 'sehr', 'auf', 'für', 'den', 'aber', 'sich', 'auch', 'von'],
+	pt: ['os', 'as', 'que', 'de', 'é', 'não', 'um', 'uma', 'para', 'com', 'muito', 'em', 'do', 'da', 'mas', 'por', 'se', 'meu', 'minha', 'está'],
+	it: ['il', 'lo', 'la', 'gli', 'che', 'di', 'è', 'non', 'un', 'una', 'per', 'con', 'molto', 'ma', 'sono', 'del', 'della', 'mi', 'si', 'questo'],
+	nl: ['de', 'het', 'een', 'en', 'is', 'niet', 'van', 'dat', 'ik', 'te', 'met', 'voor', 'op', 'maar', 'zijn', 'heel', 'er', 'ook', 'naar', 'je'],
+};
+
+// 768-dimension embeddings; the Vectorize index must be created with the same dimensions and cosine metric
+const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+const EMBEDDING_MAX_CHARS = 2000;
+const SIMILAR_DEFAULT_LIMIT = 5;
+const SIMILAR_MAX_LIMIT = 20;
+
+// Theme clustering runs on its own cron over the last THEME_WINDOW_DAYS of analyzed feedback.
+// A row joins the closest cluster at THEME_SIMILARITY_THRESHOLD or above; clusters below
+// THEME_MIN_SIZE are dropped, and a cluster reuses an existing theme at THEME_MATCH_THRESHOLD.
+const THEME_CLUSTER_CRON = '0 * * * *';
+const THEME_WINDOW_DAYS = 30;
+const THEME_MAX_ITEMS = 2000;
+const THEME_SIMILARITY_THRESHOLD = 0.8;
+const THEME_MATCH_THRESHOLD = 0.85;
+const THEME_MIN_SIZE = 3;
+const THEME_NAME_SAMPLE_SIZE = 10;
+// Vectorize returns at most this many vectors per getByIds call
+const VECTOR_FETCH_BATCH_SIZE = 20;
+const THEMES_DEFAULT_DAYS = 7;
+const THEMES_MAX_DAYS = 90;
+const THEMES_DEFAULT_LIMIT = 20;
+const THEMES_MAX_LIMIT = 100;
+
+const ALERT_CHANNELS: AlertChannel[] = ['slack', 'webhook', 'email'];
+const ALERT_DEFAULT_COOLDOWN_MINUTES = 60;
+const ALERT_MAX_WINDOW_MINUTES = 7 * 24 * 60;
+// A delivery is tried once right away, then retried by the cron sweeper after each of these delays
+const ALERT_RETRY_DELAYS_MINUTES = [5, 15, 60, 240];
+const ALERT_MAX_ATTEMPTS = ALERT_RETRY_DELAYS_MINUTES.length + 1;
+const ALERT_RETRY_BATCH_SIZE = 50;
+const ALERT_DELIVERIES_DEFAULT_LIMIT = 50;
+const ALERT_DELIVERIES_MAX_LIMIT = 200;
+
+// Outbound webhooks (alerts, digests) give up after this long
+const WEBHOOK_REQUEST_TIMEOUT_MS = 10000;
+
+// Digest crons; a daily digest covers the previous UTC day and a weekly one the 7 days before the run
+const DIGEST_CRONS: Record<string, DigestPeriod> = { '0 8 * * *': 'daily', '0 8 * * 1': 'weekly' };
+const DIGEST_PERIOD_DAYS: Record<DigestPeriod, number> = { daily: 1, weekly: 7 };
+const DIGEST_TOP_THEMES = 5;
+const DIGEST_TOP_TAGS = 15;
+const DIGEST_QUOTE_CANDIDATES = 12;
+const DIGEST_QUOTE_MAX_CHARS = 300;
+const DIGEST_MAX_TOKENS = 1024;
+const DIGESTS_DEFAULT_LIMIT = 20;
+const DIGESTS_MAX_LIMIT = 100;
+const DIGEST_LINES_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 5 };
+const DIGEST_JSON_SCHEMA = {
+	type: 'object',
+	required: ['headline', 'summary', 'top_themes', 'got_worse', 'notable_quotes', 'new_issues'],
+	properties: {
+		headline: { type: 'string', minLength: 1, maxLength: 300 },
+		summary: { type: 'string', maxLength: 2000 },
+		top_themes: DIGEST_LINES_SCHEMA,
+		got_worse: DIGEST_LINES_SCHEMA,
+		notable_quotes: {
+			type: 'array',
+			maxItems: 3,
+			items: {
+				type: 'object',
+				required: ['feedback_id', 'why'],
+				properties: { feedback_id: { type: 'integer' }, why: { type: 'string' } },
+			},
+		},
+		new_issues: DIGEST_LINES_SCHEMA,
+	},
+} satisfies JsonSchema;
+
+// Queue names must match the consumers in wrangler.jsonc
+const ANALYSIS_DLQ = 'feedback-analysis-dlq';
+const ANALYSIS_RETRY_BASE_DELAY_SECONDS = 10;
+const ANALYSIS_RETRY_MAX_DELAY_SECONDS = 600;
+
+// Sweeper: re-queue rows stuck in pending or failed, up to a maximum number of attempts
+const ANALYSIS_MAX_ATTEMPTS = 3;
+const ANALYSIS_STALE_AFTER_MS = 30 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 100;
+
+// Page size for GET /api/feedback (cursor pagination)
+const FEEDBACK_PAGE_DEFAULT_LIMIT = 50;
+const FEEDBACK_PAGE_MAX_LIMIT = 100;
+
+// Time series: rows are pre-aggregated in 15-minute slots (every UTC offset is a multiple of 15 minutes),
+// then assigned to day/week buckets in the caller's time zone
+const TIMESERIES_SLOT_MS = 15 * 60 * 1000;
+const TIMESERIES_DEFAULT_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+const TIMESERIES_MAX_RANGE_MS = 366 * 24 * 60 * 60 * 1000;
+
+// Long-polling for GET /api/feedback/:id?wait=<seconds>
+const LONG_POLL_MAX_WAIT_SECONDS = 25;
+const LONG_POLL_INTERVAL_MS = 500;
+
+const REANALYZE_DEFAULT_LIMIT = 100;
+const REANALYZE_MAX_LIMIT = 500;
+
+const API_SCOPES: ApiScope[] = ['ingest', 'read', 'review', 'admin'];
+const API_KEY_PREFIX = 'fr_';
+
+// Bulk import: rows per request and rows per DB.batch call
+const IMPORT_MAX_ROWS = 5000;
+const IMPORT_BATCH_SIZE = 50;
+
+// Inbound email larger than this is bounced rather than parsed
+const EMAIL_MAX_BYTES = 1024 * 1024;
+
+// Connectors: slugs share the /api/ingest/ namespace with built-in integrations
+const CONNECTOR_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+const RESERVED_CONNECTOR_SLUGS = ['github'];
+const CONNECTOR_AUTH_SCHEMES: ConnectorAuthScheme[] = ['shared_secret', 'hmac_sha256'];
+const CONNECTOR_DEFAULT_AUTH_HEADERS: Record<ConnectorAuthScheme, string> = {
+	shared_secret: 'X-Webhook-Secret',
+	hmac_sha256: 'X-Signature-256',
+};
+const CONNECTOR_MAPPING_FIELDS = ['text', 'source', 'author', 'external_id', 'external_url', 'created_at'];
+
+// PII detectors in the order they run: secrets and card numbers go before phone numbers so their digits aren't half-matched
+const PII_DETECTORS: PiiDetector[] = ['secret', 'email', 'credit_card', 'ip', 'phone'];
+const PII_PATTERNS: Record<PiiDetector, RegExp[]> = {
+	secret: [
+		/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+		/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+		/\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+		/\bgithub_pat_[A-Za-z0-9_]{22,}/g,
+		/\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+		/\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g,
+		/\bsk-[A-Za-z0-9_-]{20,}/g,
+		/\bAIza[0-9A-Za-z_-]{35}/g,
+		/\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+		/\bfr_[0-9a-f]{32,}\b/g,
+		/\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g,
+	],
+	email: [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g],
+	credit_card: [/(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g],
+	ip: [
+		/\b(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\b/g,
+		/(?<![\w:])(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}(?![\w:])/gi,
+		/(?<![\w:])(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4}){0,5})?(?![\w:])/gi,
+	],
+	phone: [/(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)\s?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}(?!\w)/g, /(?<![\w+])\+\d{8,15}(?!\w)/g],
+};
+// Matches a detector must also pass before they're redacted
+const PII_VALIDATORS: Partial<Record<PiiDetector, (match: string) => boolean>> = {
+	credit_card: (match) => passesLuhnCheck(match.replace(/\D/g, '')),
+	phone: (match) => {
+		const digits = match.replace(/\D/g, '').length;
+		return digits >= 7 && digits <= 15;
+	},
+};
+
+// Export reads the table in keyset-paginated chunks of this many rows
+const EXPORT_CHUNK_SIZE = 500;
+const EXPORT_COLUMNS = [
+	'id',
+	'source',
+	'text',
+	'created_at',
+	'sentiment',
+	'urgency',
+	'tags',
+	'summary',
+	'ai_model',
+	'analysis_status',
+	'author',
+	'external_url',
+] as const;
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+	csv: 'text/csv; charset=utf-8',
+	ndjson: 'application/x-ndjson',
+	json: 'application/json',
+};
+
+// Expired D1 rate limit windows are cleaned up by the scheduled handler
+const RATE_LIMIT_COUNTER_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Deleted feedback is purged by the 15-minute cron after DELETED_FEEDBACK_RETENTION_DAYS
+const DELETED_FEEDBACK_DEFAULT_RETENTION_DAYS = 30;
+const PURGE_BATCH_SIZE = 500;
+
+const AUDIT_LOG_DEFAULT_LIMIT = 50;
+const AUDIT_LOG_MAX_LIMIT = 200;
+
+// D1 allows at most 100 bound parameters per statement, Queues at most 100 messages per sendBatch
+const ENQUEUE_CHUNK_SIZE = 90;
+
+export default {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+		const url = new URL(request.url);
+		const path = url.pathname;
+		const method = request.method;
+
+		// CORS headers for API routes - only origins listed in CORS_ALLOWED_ORIGINS may call the API from a browser
+		const corsHeaders: Record<string, string> = {
+			'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+			'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+			Vary: 'Origin',
+		};
+		const allowedOrigin = getAllowedOrigin(request, env);
+		if (allowedOrigin) {
+			corsHeaders['Access-Control-Allow-Origin'] = allowedOrigin;
+		}
+
+		if (method === 'OPTIONS') {
+			return new Response(null, { headers: corsHeaders });
+		}
+
+		try {
+			// Route: Dashboard (GET /)
+			if (path === '/' && method === 'GET') {
+				// Emit analytics event
+				env.ANALYTICS?.writeDataPoint({
+					blobs: ['dashboard_view', '/', 'all', 'success'],
+					doubles: [1, 0],
+					indexes: [new Date().toISOString().split('T')[0]],
+				});
+
+				return new Response(getDashboardHTML(), {
+					headers: { 'Content-Type': 'text/html' },
+				});
+			}
+
+			// Route: GitHub webhook (POST /api/ingest/github) - authenticated by signature, not API key
+			if (path === '/api/ingest/github' && method === 'POST') {
+				if (!env.GITHUB_WEBHOOK_SECRET) {
+					return new Response(
+						JSON.stringify({ error: 'GitHub webhook secret is not configured' }),
+						{ status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const rawBody = await request.text();
+				const signature = request.headers.get('X-Hub-Signature-256') || '';
+				if (!(await verifyHmacSha256(env.GITHUB_WEBHOOK_SECRET, rawBody, signature.replace(/^sha256=/, '')))) {
+					return new Response(
+						JSON.stringify({ error: 'Invalid signature' }),
+						{ status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const event = request.headers.get('X-GitHub-Event') || '';
+				const deliveryId = request.headers.get('X-GitHub-Delivery') || '';
+
+				if (event === 'ping') {
+					return new Response(JSON.stringify({ ok: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+				}
+
+				let payload: unknown;
+				try {
+					payload = JSON.parse(rawBody);
+				} catch {
+					payload = null;
+				}
+				if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+					return new Response(
+						JSON.stringify({ error: 'Invalid payload' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const feedback = githubPayloadToFeedback(event, payload as GitHubIssuePayload);
+				if (!feedback || !deliveryId) {
+					return new Response(
+						JSON.stringify({ ignored: true, event }),
+						{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const throttled = await checkIngestRateLimits(env, request, 'webhook:github', { github: 1 });
+				if (throttled) {
+					return throttledResponse(env, '/api/ingest/github', 'github', 1, throttled, corsHeaders);
+				}
+
+				const result = await createDeliveredFeedback(env, 'github', deliveryId, feedback);
+
+				// Emit analytics event for ingestion
+				env.ANALYTICS?.writeDataPoint({
+					blobs: ['ingest_received', '/api/ingest/github', 'github', result.duplicate ? 'duplicate' : 'pending'],
+					doubles: [1, 0],
+					indexes: [new Date().toISOString().split('T')[0]],
+				});
+
+				return new Response(
+					JSON.stringify({ id: result.feedback_id, duplicate: result.duplicate }),
+					{ status: result.duplicate ? 200 : 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Connector webhook (POST /api/ingest/:connector) - authenticated by the connector's secret
+			const connectorIngestMatch = path.match(/^\/api\/ingest\/([a-z0-9-]+)$/);
+			if (connectorIngestMatch && method === 'POST') {
+				const connector = await env.DB.prepare('SELECT * FROM connectors WHERE slug = ? AND enabled = 1')
+					.bind(connectorIngestMatch[1])
+					.first<ConnectorRow>();
+
+				if (!connector) {
+					return new Response(
+						JSON.stringify({ error: 'Connector not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const rawBody = await request.text();
+				if (!(await verifyConnectorRequest(connector, request.headers, rawBody))) {
+					return new Response(
+						JSON.stringify({ error: 'Invalid connector credentials' }),
+						{ status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				let payload: unknown;
+				try {
+					payload = JSON.parse(rawBody);
+				} catch {
+					return new Response(
+						JSON.stringify({ error: 'Body must be JSON' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const mapped = mapConnectorPayload(connector, payload);
+				if (!mapped.feedback) {
+					return new Response(
+						JSON.stringify({ error: mapped.error }),
+						{ status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const feedback = mapped.feedback;
+				const throttled = await checkIngestRateLimits(env, request, `connector:${connector.slug}`, { [feedback.source]: 1 });
+				if (throttled) {
+					return throttledResponse(env, `/api/ingest/${connector.slug}`, feedback.source, 1, throttled, corsHeaders);
+				}
+
+				const result = feedback.external_id
+					? await createDeliveredFeedback(env, `connector:${connector.slug}`, feedback.external_id, feedback)
+					: { feedback_id: await createFeedback(env, feedback), duplicate: false };
+
+				// Emit analytics event for ingestion
+				env.ANALYTICS?.writeDataPoint({
+					blobs: ['ingest_received', `/api/ingest/${connector.slug}`, feedback.source, result.duplicate ? 'duplicate' : 'pending'],
+					doubles: [1, 0],
+					indexes: [new Date().toISOString().split('T')[0]],
+				});
+
+				return new Response(
+					JSON.stringify({ id: result.feedback_id, duplicate: result.duplicate }),
+					{ status: result.duplicate ? 200 : 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Every API route below requires an API key
+			const principal = await authenticateRequest(request, env, ctx);
+
+			// Route: Submit feedback (POST /api/feedback)
+			if (path === '/api/feedback' && method === 'POST') {
+				const denied = requireScope(principal, 'ingest', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				// Emit analytics event for ingestion
+				env.ANALYTICS?.writeDataPoint({
+					blobs: ['ingest_received', '/api/feedback', 'unknown', 'pending'],
+					doubles: [1, 0],
+					indexes: [new Date().toISOString().split('T')[0]],
+				});
+
+				const body = await request.json() as { source: string; text: string };
+				const { source, text } = body;
+
+				if (!source || !text) {
+					return new Response(
+						JSON.stringify({ error: 'Missing required fields: source, text' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const throttled = await checkIngestRateLimits(env, request, String(principal!.id ?? 'admin'), { [source]: 1 });
+				if (throttled) {
+					return throttledResponse(env, '/api/feedback', source, 1, throttled, corsHeaders);
+				}
+
+				// Insert pending row into D1 and hand analysis off to the queue consumer,
+				// so ingestion never waits on the model
+				const feedbackId = await createFeedback(env, { source, text });
+
+				return new Response(JSON.stringify({ id: feedbackId, analysis_status: 'pending' }), {
+					status: 202,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Bulk import (POST /api/feedback/import) - CSV or NDJSON body
+			if (path === '/api/feedback/import' && method === 'POST') {
+				const denied = requireScope(principal, 'ingest', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				// Format from ?format=csv|ndjson, falling back to the Content-Type
+				const contentType = request.headers.get('Content-Type') || '';
+				const format = url.searchParams.get('format') || (contentType.includes('ndjson') ? 'ndjson' : contentType.includes('csv') ? 'csv' : null);
+				if (format !== 'csv' && format !== 'ndjson') {
+					return new Response(
+						JSON.stringify({ error: 'Unsupported format: send text/csv or application/x-ndjson, or set ?format=csv|ndjson' }),
+						{ status: 415, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// Column mapping: which CSV column / NDJSON field holds each value
+				const mapping = {
+					source: url.searchParams.get('source_column') || 'source',
+					text: url.searchParams.get('text_column') || 'text',
+					timestamp: url.searchParams.get('timestamp_column') || 'created_at',
+				};
+				const defaultSource = url.searchParams.get('default_source');
+
+				const body = await request.text();
+				const records = format === 'csv' ? parseCsvRecords(body) : parseNdjsonRecords(body);
+				if ('error' in records) {
+					return new Response(
+						JSON.stringify({ error: records.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				if (records.rows.length > IMPORT_MAX_ROWS) {
+					return new Response(
+						JSON.stringify({ error: `Too many rows: at most ${IMPORT_MAX_ROWS} per import` }),
+						{ status: 413, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const valid: ImportRow[] = [];
+				const errors: ImportError[] = [...records.errors];
+				const now = Date.now();
+
+				for (const { line, values } of records.rows) {
+					// An empty source cell falls back to default_source, like a missing column
+					const source = (values[mapping.source] ?? '').toString().trim() || (defaultSource ?? '').trim();
+					const text = (values[mapping.text] ?? '').toString().trim();
+					const rawTimestamp = values[mapping.timestamp];
+
+					if (!source || !text) {
+						errors.push({ line, error: `Missing required field: ${!source ? mapping.source : mapping.text}` });
+						continue;
+					}
+
+					let createdAt = now;
+					if (rawTimestamp !== undefined && rawTimestamp !== null && String(rawTimestamp).trim() !== '') {
+						const parsed = parseTimestampParam(String(rawTimestamp).trim());
+						if (parsed === null) {
+							errors.push({ line, error: `Invalid timestamp in ${mapping.timestamp}: ${rawTimestamp}` });
+							continue;
+						}
+						createdAt = parsed;
+					}
+
+					valid.push({ line, source, text, created_at: createdAt });
+				}
+
+				// The import counts once per row against the key and IP limits, and against each row's source
+				const rowsBySource: Record<string, number> = {};
+				for (const row of valid) {
+					rowsBySource[row.source] = (rowsBySource[row.source] || 0) + 1;
+				}
+				if (valid.length > 0) {
+					const throttled = await checkIngestRateLimits(env, request, String(principal!.id ?? 'admin'), rowsBySource);
+					if (throttled) {
+						return throttledResponse(env, '/api/feedback/import', format, valid.length, throttled, corsHeaders);
+					}
+				}
+
+				// Insert in batches; each DB.batch call is a single transaction
+				const ids: number[] = [];
+				for (let i = 0; i < valid.length; i += IMPORT_BATCH_SIZE) {
+					const chunk = valid.slice(i, i + IMPORT_BATCH_SIZE).map((row) => buildInsertFeedbackStatements(env, row));
+					const results = await env.DB.batch(chunk.flat());
+
+					// Rows with a kept original take two statements; the first of each group is the feedback insert
+					let offset = 0;
+					for (const statements of chunk) {
+						ids.push(results[offset].meta.last_row_id);
+						offset += statements.length;
+					}
+				}
+
+				await enqueueAnalysis(env, ids);
+
+				// Emit analytics event for ingestion
+				env.ANALYTICS?.writeDataPoint({
+					blobs: ['ingest_received', '/api/feedback/import', format, 'pending'],
+					doubles: [ids.length, errors.length],
+					indexes: [new Date().toISOString().split('T')[0]],
+				});
+
+				errors.sort((a, b) => a.line - b.line);
+
+				return new Response(
+					JSON.stringify({ total: records.rows.length + records.errors.length, imported: ids.length, rejected: errors.length, ids, errors }),
+					{ status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Export feedback (GET /api/feedback/export) - same filters as GET /api/feedback, no row cap
+			if (path === '/api/feedback/export' && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const format = (url.searchParams.get('format') || 'csv') as ExportFormat;
+				if (!(format in EXPORT_CONTENT_TYPES)) {
+					return new Response(
+						JSON.stringify({ error: 'format must be csv, ndjson or json' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const filters = buildFeedbackFilters(url.searchParams);
+				if (filters.error) {
+					return new Response(
+						JSON.stringify({ error: filters.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const filename = `feedback-export-${new Date().toISOString().split('T')[0]}.${format}`;
+
+				return new Response(streamFeedbackExport(env, filters, format), {
+					headers: {
+						...corsHeaders,
+						'Content-Type': EXPORT_CONTENT_TYPES[format],
+						'Content-Disposition': `attachment; filename="${filename}"`,
+					},
+				});
+			}
+
+			// Route: Get feedback list (GET /api/feedback)
+			if (path === '/api/feedback' && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const limit = Math.min(
+					parseInt(url.searchParams.get('limit') || String(FEEDBACK_PAGE_DEFAULT_LIMIT)) || FEEDBACK_PAGE_DEFAULT_LIMIT,
+					FEEDBACK_PAGE_MAX_LIMIT
+				);
+				const filters = buildFeedbackFilters(url.searchParams, { includeSearch: false });
+				if (filters.error) {
+					return new Response(
+						JSON.stringify({ error: filters.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+				const search = buildSearchQuery(url.searchParams.get('q') || '');
+				const sortByRelevance = search !== null && url.searchParams.get('sort') === 'relevance';
+
+				let query: string;
+				const binds: any[] = [];
+
+				if (search) {
+					// Join the FTS index for ranking and highlighted snippets; matches are wrapped in control characters
+					// so the text can be HTML-escaped before they become <mark> tags
+					query = `SELECT feedback.*, bm25(feedback_fts) AS rank,
+						snippet(feedback_fts, 0, char(1), char(2), '…', 16) AS text_snippet,
+						snippet(feedback_fts, 1, char(1), char(2), '…', 16) AS summary_snippet
+						FROM feedback JOIN feedback_fts ON feedback_fts.rowid = feedback.id
+						WHERE feedback_fts MATCH ? AND ${filters.where}`;
+					binds.push(search);
+				} else {
+					query = 'SELECT * FROM feedback WHERE ' + filters.where;
+				}
+				binds.push(...filters.binds);
+
+				let cursor: FeedbackCursor | null = null;
+				const cursorParam = url.searchParams.get('cursor');
+				if (cursorParam) {
+					cursor = decodeFeedbackCursor(cursorParam);
+					if (!cursor || ('offset' in cursor) !== sortByRelevance) {
+						return new Response(
+							JSON.stringify({ error: 'Invalid cursor' }),
+							{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+						);
+					}
+				}
+
+				// Resume after the last row of the previous page (newest first)
+				if (cursor && 'created_at' in cursor) {
+					query += ' AND (feedback.created_at < ? OR (feedback.created_at = ? AND feedback.id < ?))';
+					binds.push(cursor.created_at, cursor.created_at, cursor.id);
+				}
+
+				// Fetch one extra row to know whether another page exists
+				const offset = cursor && 'offset' in cursor ? cursor.offset : 0;
+				query += sortByRelevance
+					? ' ORDER BY rank, feedback.id DESC LIMIT ? OFFSET ?'
+					: ' ORDER BY feedback.created_at DESC, feedback.id DESC LIMIT ? OFFSET ?';
+				binds.push(limit + 1, offset);
+
+				const result = await env.DB.prepare(query)
+					.bind(...binds)
+					.all<FeedbackRow | FeedbackSearchRow>();
+
+				const items = result.results.slice(0, limit).map((row) =>
+					'text_snippet' in row
+						? { ...row, text_snippet: highlightSnippet(row.text_snippet), summary_snippet: row.summary_snippet && highlightSnippet(row.summary_snippet) }
+						: row
+				);
+				const lastItem = items[items.length - 1];
+				let nextCursor: string | null = null;
+				if (result.results.length > limit) {
+					nextCursor = encodeFeedbackCursor(
+						sortByRelevance ? { offset: offset + limit } : { created_at: lastItem.created_at, id: lastItem.id! }
+					);
+				}
+
+				const page: FeedbackPage = { items, next_cursor: nextCursor };
+
+				return new Response(JSON.stringify(page), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Similar feedback (GET /api/feedback/:id/similar) - nearest neighbours by embedding
+			const similarMatch = path.match(/^\/api\/feedback\/(\d+)\/similar$/);
+			if (similarMatch && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const row = await getFeedbackById(env, parseInt(similarMatch[1]));
+				if (!row) {
+					return new Response(
+						JSON.stringify({ error: 'Feedback not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '') || SIMILAR_DEFAULT_LIMIT, 1), SIMILAR_MAX_LIMIT);
+
+				// Rows that haven't been indexed yet (still pending, or analyzed before embeddings) are embedded on the fly
+				const [stored] = await getVectorIndex(env).getByIds([String(row.id)]);
+				const vector = stored?.values ? Array.from(stored.values) : await embedText(env, row.text);
+				const items = await findSimilarFeedback(env, vector, limit, row.id);
+
+				return new Response(JSON.stringify({ id: row.id, items }), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Semantic search (POST /api/search/semantic) - { query, limit? }
+			if (path === '/api/search/semantic' && method === 'POST') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const body = await request.json() as { query?: string; limit?: number };
+				const query = body.query?.trim();
+				if (!query) {
+					return new Response(
+						JSON.stringify({ error: 'Missing required field: query' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const limit = Math.min(Math.max(Number(body.limit) || SIMILAR_DEFAULT_LIMIT, 1), SIMILAR_MAX_LIMIT);
+				const items = await findSimilarFeedback(env, await embedText(env, query), limit);
+
+				return new Response(JSON.stringify({ query, items }), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Get single feedback (GET /api/feedback/:id) - ?wait=<seconds> long-polls while analysis is pending
+			const feedbackIdMatch = path.match(/^\/api\/feedback\/(\d+)$/);
+			if (feedbackIdMatch && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const feedbackId = parseInt(feedbackIdMatch[1]);
+				const waitSeconds = Math.min(Math.max(parseInt(url.searchParams.get('wait') || '0') || 0, 0), LONG_POLL_MAX_WAIT_SECONDS);
+				const deadline = Date.now() + waitSeconds * 1000;
+
+				let row = await getFeedbackById(env, feedbackId);
+				while (row && row.analysis_status === 'pending' && Date.now() < deadline) {
+					await scheduler.wait(LONG_POLL_INTERVAL_MS);
+					row = await getFeedbackById(env, feedbackId);
+				}
+
+				if (!row) {
+					return new Response(
+						JSON.stringify({ error: 'Feedback not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// Reviewer corrections, status changes and notes, oldest first
+				const [corrections, statusHistory, notes] = await env.DB.batch<FeedbackCorrectionRow | FeedbackStatusChangeRow | FeedbackNoteRow>([
+					env.DB.prepare('SELECT * FROM feedback_corrections WHERE feedback_id = ? ORDER BY id').bind(feedbackId),
+					env.DB.prepare('SELECT * FROM feedback_status_history WHERE feedback_id = ? ORDER BY id').bind(feedbackId),
+					env.DB.prepare('SELECT * FROM feedback_notes WHERE feedback_id = ? ORDER BY id').bind(feedbackId),
+				]);
+				const item = {
+					...row,
+					corrections: (corrections.results as FeedbackCorrectionRow[]).map((correction) => ({
+						...correction,
+						previous_value: JSON.parse(correction.previous_value ?? 'null'),
+						value: JSON.parse(correction.value ?? 'null'),
+					})),
+					status_history: statusHistory.results,
+					notes: notes.results,
+				};
+
+				// The unredacted text, when kept, is only shown to admin keys
+				if (principal!.scopes.includes('admin')) {
+					const original = await env.DB.prepare('SELECT text FROM feedback_originals WHERE feedback_id = ?')
+						.bind(feedbackId)
+						.first<{ text: string }>();
+					return new Response(JSON.stringify({ ...item, text_original: original?.text ?? null }), {
+						headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+					});
+				}
+
+				return new Response(JSON.stringify(item), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Update feedback (PATCH /api/feedback/:id) - corrections to sentiment, urgency, tags, summary,
+			// and triage status and assignee. The model's values stay in the ai_* columns; an empty body confirms
+			// the row as analyzed, a body with only status or assignee leaves the analysis unreviewed.
+			if (feedbackIdMatch && method === 'PATCH') {
+				const denied = requireScope(principal, 'review', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const body = await readJsonObject<AIAnalysis & { status: TriageStatus; assignee: unknown }>(request);
+				if (!body) {
+					return new Response(
+						JSON.stringify({ error: 'Expected a JSON object' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const { assignee, status, ...corrections } = body;
+				const errors = validateJsonSchema(status === undefined ? corrections : { ...corrections, status }, FEEDBACK_PATCH_SCHEMA);
+				if (assignee !== undefined && assignee !== null && (typeof assignee !== 'string' || !assignee.trim() || assignee.length > ASSIGNEE_MAX_LENGTH)) {
+					errors.push(`$.assignee must be null or a non-empty string of at most ${ASSIGNEE_MAX_LENGTH} characters`);
+				}
+				if (errors.length > 0) {
+					return new Response(
+						JSON.stringify({ error: errors.join('; ') }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const feedbackId = parseInt(feedbackIdMatch[1]);
+				const row = await getFeedbackById(env, feedbackId);
+				if (!row) {
+					return new Response(
+						JSON.stringify({ error: 'Feedback not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+				const triageOnly = (status !== undefined || assignee !== undefined) && Object.keys(corrections).length === 0;
+				if (!triageOnly && row.analysis_status !== 'done') {
+					return new Response(
+						JSON.stringify({ error: 'Feedback has not been analyzed yet' }),
+						{ status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				await env.DB.batch([
+					...(triageOnly ? [] : buildCorrectionStatements(env, row, corrections, principal!.name)),
+					...buildTriageStatements(env, row, { status, assignee: typeof assignee === 'string' ? assignee.trim() : (assignee as null | undefined) }, principal!.name),
+				]);
+				await recordAudit(env, principal, 'feedback.update', 'feedback', feedbackId, { ...corrections, status, assignee });
+
+				return new Response(JSON.stringify(await getFeedbackById(env, feedbackId)), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Add note (POST /api/feedback/:id/notes) - { body }, an internal note signed with the key name
+			const notesMatch = path.match(/^\/api\/feedback\/(\d+)\/notes$/);
+			if (notesMatch && method === 'POST') {
+				const denied = requireScope(principal, 'review', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const body = await readJsonObject<{ body: unknown }>(request);
+				if (!body) {
+					return new Response(
+						JSON.stringify({ error: 'Expected a JSON object' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+				const text = typeof body.body === 'string' ? body.body.trim() : '';
+				if (!text || text.length > NOTE_MAX_LENGTH) {
+					return new Response(
+						JSON.stringify({ error: `body must be a non-empty string of at most ${NOTE_MAX_LENGTH} characters` }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const note = await env.DB.prepare(
+					`INSERT INTO feedback_notes (feedback_id, body, author, created_at)
+					SELECT id, ?, ?, ? FROM feedback WHERE id = ? AND deleted_at IS NULL RETURNING *`
+				)
+					.bind(text, principal!.name, Date.now(), parseInt(notesMatch[1]))
+					.first<FeedbackNoteRow>();
+				if (!note) {
+					return new Response(
+						JSON.stringify({ error: 'Feedback not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				await recordAudit(env, principal, 'feedback.note', 'feedback', note.feedback_id, { note_id: note.id });
+
+				return new Response(JSON.stringify(note), {
+					status: 201,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Bulk reanalyze (POST /api/feedback/reanalyze) - same filters as GET /api/feedback
+			if (path === '/api/feedback/reanalyze' && method === 'POST') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const limit = Math.min(
+					parseInt(url.searchParams.get('limit') || String(REANALYZE_DEFAULT_LIMIT)) || REANALYZE_DEFAULT_LIMIT,
+					REANALYZE_MAX_LIMIT
+				);
+				const filters = buildFeedbackFilters(url.searchParams);
+				if (filters.error) {
+					return new Response(
+						JSON.stringify({ error: filters.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const result = await env.DB.prepare(`SELECT id FROM feedback WHERE ${filters.where} ORDER BY created_at DESC LIMIT ?`)
+					.bind(...filters.binds, limit)
+					.all<{ id: number }>();
+
+				const ids = result.results.map((row) => row.id);
+				await enqueueAnalysis(env, ids, { resetAttempts: true });
+				await recordAudit(env, principal, 'feedback.reanalyze', 'feedback', null, { ids });
+
+				return new Response(JSON.stringify({ queued: ids.length, ids }), {
+					status: 202,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Reanalyze single feedback (POST /api/feedback/:id/reanalyze)
+			const reanalyzeMatch = path.match(/^\/api\/feedback\/(\d+)\/reanalyze$/);
+			if (reanalyzeMatch && method === 'POST') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const feedbackId = parseInt(reanalyzeMatch[1]);
+
+				const existing = await env.DB.prepare('SELECT id FROM feedback WHERE id = ? AND deleted_at IS NULL')
+					.bind(feedbackId)
+					.first<{ id: number }>();
+
+				if (!existing) {
+					return new Response(
+						JSON.stringify({ error: 'Feedback not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				await enqueueAnalysis(env, [feedbackId], { resetAttempts: true });
+				await recordAudit(env, principal, 'feedback.reanalyze', 'feedback', feedbackId);
+
+				return new Response(JSON.stringify({ id: feedbackId, analysis_status: 'pending' }), {
+					status: 202,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Delete feedback (DELETE /api/feedback/:id) - sets a tombstone; the purge job removes the row later
+			if (path.startsWith('/api/feedback/') && method === 'DELETE') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const feedbackId = parseInt(path.split('/').pop() || '0');
+				
+				if (!feedbackId || isNaN(feedbackId)) {
+					return new Response(
+						JSON.stringify({ error: 'Invalid feedback ID' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const deletedAt = Date.now();
+				const deleted = await env.DB.prepare('UPDATE feedback SET deleted_at = ?, deleted_by = ? WHERE id = ? AND deleted_at IS NULL RETURNING id')
+					.bind(deletedAt, principal!.name, feedbackId)
+					.first<{ id: number }>();
+
+				if (!deleted) {
+					return new Response(
+						JSON.stringify({ error: 'Feedback not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				await recordAudit(env, principal, 'feedback.delete', 'feedback', feedbackId);
+
+				return new Response(
+					JSON.stringify({ success: true, message: 'Feedback deleted successfully', purge_after: deletedAt + getDeletedRetentionMs(env) }),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Restore feedback (POST /api/feedback/:id/restore) - undoes a delete until the row is purged
+			const restoreMatch = path.match(/^\/api\/feedback\/(\d+)\/restore$/);
+			if (restoreMatch && method === 'POST') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const feedbackId = parseInt(restoreMatch[1]);
+				const restored = await env.DB.prepare('UPDATE feedback SET deleted_at = NULL, deleted_by = NULL WHERE id = ? AND deleted_at IS NOT NULL RETURNING *')
+					.bind(feedbackId)
+					.first<FeedbackRow>();
+
+				if (!restored) {
+					return new Response(
+						JSON.stringify({ error: 'Deleted feedback not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				await recordAudit(env, principal, 'feedback.restore', 'feedback', feedbackId);
+
+				return new Response(JSON.stringify(restored), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Get stats (GET /api/stats)
+			if (path === '/api/stats' && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const range = buildDateRangeFilter(url.searchParams);
+				if (range.error) {
+					return new Response(
+						JSON.stringify({ error: range.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// Get sentiment counts
+				const sentimentCounts = await env.DB.prepare(
+					`SELECT sentiment, COUNT(*) as count FROM feedback WHERE sentiment IS NOT NULL AND ${range.where} GROUP BY sentiment`
+				)
+					.bind(...range.binds)
+					.all<{ sentiment: string; count: number }>();
+
+				// Get language counts; rows without letters have no language
+				const languageCounts = await env.DB.prepare(
+					`SELECT language, COUNT(*) as count FROM feedback WHERE language IS NOT NULL AND ${range.where} GROUP BY language ORDER BY count DESC`
+				)
+					.bind(...range.binds)
+					.all<{ language: string; count: number }>();
+
+				// Get top tags across the whole dataset
+				const topTags = await env.DB.prepare(
+					`SELECT feedback_tags.tag, COUNT(*) as count
+					FROM feedback_tags JOIN feedback ON feedback.id = feedback_tags.feedback_id
+					WHERE ${range.where}
+					GROUP BY feedback_tags.tag
+					ORDER BY count DESC, feedback_tags.tag ASC
+					LIMIT 10`
+				)
+					.bind(...range.binds)
+					.all<{ tag: string; count: number }>();
+
+				// Get average AI latency
+				const avgLatencyResult = await env.DB.prepare(
+					`SELECT AVG(ai_latency_ms) as avg_latency FROM feedback WHERE ai_latency_ms IS NOT NULL AND ${range.where}`
+				)
+					.bind(...range.binds)
+					.first<{ avg_latency: number }>();
+
+				// Get total count
+				const totalResult = await env.DB.prepare(`SELECT COUNT(*) as total FROM feedback WHERE ${range.where}`)
+					.bind(...range.binds)
+					.first<{ total: number }>();
+
+				// Get triage status and assignee counts
+				const statusCounts = await env.DB.prepare(`SELECT status, COUNT(*) as count FROM feedback WHERE ${range.where} GROUP BY status`)
+					.bind(...range.binds)
+					.all<{ status: TriageStatus; count: number }>();
+				const assigneeCounts = await env.DB.prepare(
+					`SELECT assignee, COUNT(*) as count FROM feedback WHERE assignee IS NOT NULL AND ${range.where} GROUP BY assignee ORDER BY count DESC, assignee ASC`
+				)
+					.bind(...range.binds)
+					.all<{ assignee: string; count: number }>();
+				const closedCount = statusCounts.results
+					.filter((row) => CLOSED_TRIAGE_STATUSES.includes(row.status))
+					.reduce((sum, row) => sum + row.count, 0);
+
+				const stats = {
+					sentiment_counts: sentimentCounts.results.reduce((acc, row) => {
+						acc[row.sentiment] = row.count;
+						return acc;
+					}, {} as Record<string, number>),
+					language_counts: languageCounts.results.reduce((acc, row) => {
+						acc[row.language] = row.count;
+						return acc;
+					}, {} as Record<string, number>),
+					top_tags: topTags.results,
+					avg_ai_latency_ms: avgLatencyResult?.avg_latency || 0,
+					total_feedback: totalResult?.total || 0,
+					status_counts: Object.fromEntries(
+						TRIAGE_STATUSES.map((status) => [status, statusCounts.results.find((row) => row.status === status)?.count ?? 0])
+					),
+					assignee_counts: assigneeCounts.results.reduce((acc, row) => {
+						acc[row.assignee] = row.count;
+						return acc;
+					}, {} as Record<string, number>),
+					open_count: (totalResult?.total || 0) - closedCount,
+					resolved_count: closedCount,
+					median_resolution_ms: await getMedianResolutionMs(env, range, closedCount),
+				};
+
+				return new Response(JSON.stringify(stats), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Analysis accuracy (GET /api/stats/accuracy) - agreement between the model and reviewers,
+			// per model and analyzer config version; ?from/?to bound the rows' created_at
+			if (path === '/api/stats/accuracy' && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const range = buildDateRangeFilter(url.searchParams);
+				if (range.error) {
+					return new Response(
+						JSON.stringify({ error: range.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// Tags agree when both sides hold the same set, whatever the order
+				const result = await env.DB.prepare(
+					`SELECT feedback.ai_model, feedback.analyzer_config_id, analyzer_configs.scope, feedback.prompt_version,
+						COUNT(*) AS reviewed,
+						SUM(feedback.sentiment = feedback.ai_sentiment) AS sentiment,
+						SUM(feedback.urgency = feedback.ai_urgency) AS urgency,
+						AVG(ABS(feedback.urgency - feedback.ai_urgency)) AS urgency_mean_abs_error,
+						SUM(NOT EXISTS (SELECT value FROM json_each(feedback.tags) EXCEPT SELECT value FROM json_each(feedback.ai_tags))
+							AND NOT EXISTS (SELECT value FROM json_each(feedback.ai_tags) EXCEPT SELECT value FROM json_each(feedback.tags))) AS tags,
+						SUM(feedback.summary = feedback.ai_summary) AS summary
+					FROM feedback LEFT JOIN analyzer_configs ON analyzer_configs.id = feedback.analyzer_config_id
+					WHERE feedback.reviewed_at IS NOT NULL AND feedback.ai_sentiment IS NOT NULL AND ${range.where}
+					GROUP BY feedback.ai_model, feedback.analyzer_config_id
+					ORDER BY reviewed DESC, feedback.analyzer_config_id ASC`
+				)
+					.bind(...range.binds)
+					.all<AccuracyCounts & { ai_model: string | null; analyzer_config_id: number | null; scope: string | null; prompt_version: number | null; urgency_mean_abs_error: number }>();
+
+				const total: AccuracyCounts = { reviewed: 0, sentiment: 0, urgency: 0, tags: 0, summary: 0 };
+				let urgencyAbsErrorSum = 0;
+				for (const row of result.results) {
+					for (const field of ['reviewed', ...CORRECTABLE_FIELDS] as const) {
+						total[field] += row[field];
+					}
+					urgencyAbsErrorSum += row.urgency_mean_abs_error * row.reviewed;
+				}
+
+				return new Response(
+					JSON.stringify({
+						...summarizeAccuracy(total),
+						urgency_mean_abs_error: total.reviewed > 0 ? urgencyAbsErrorSum / total.reviewed : null,
+						by_version: result.results.map((row) => ({
+							ai_model: row.ai_model,
+							analyzer_config_id: row.analyzer_config_id,
+							scope: row.scope,
+							prompt_version: row.prompt_version,
+							...summarizeAccuracy(row),
+							urgency_mean_abs_error: row.urgency_mean_abs_error,
+						})),
+					}),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Time series stats (GET /api/stats/timeseries)
+			if (path === '/api/stats/timeseries' && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const interval = url.searchParams.get('interval') || 'day';
+				const timeZone = url.searchParams.get('tz') || 'UTC';
+
+				if (interval !== 'day' && interval !== 'week') {
+					return new Response(
+						JSON.stringify({ error: 'interval must be "day" or "week"' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				if (!isValidTimeZone(timeZone)) {
+					return new Response(
+						JSON.stringify({ error: `Unknown time zone: ${timeZone}` }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// Reject a bad from or to before the defaults fill in the missing ones
+				const range = buildDateRangeFilter(url.searchParams);
+				if (range.error) {
+					return new Response(
+						JSON.stringify({ error: range.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// Default to the last 30 days
+				const params = new URLSearchParams(url.searchParams);
+				const to = parseTimestampParam(params.get('to')) ?? Date.now();
+				const from = parseTimestampParam(params.get('from')) ?? to - TIMESERIES_DEFAULT_RANGE_MS;
+				params.set('from', String(from));
+				params.set('to', String(to));
+
+				const filters = buildFeedbackFilters(params);
+				if (filters.error || to - from > TIMESERIES_MAX_RANGE_MS) {
+					return new Response(
+						JSON.stringify({ error: filters.error || 'Date range cannot exceed 366 days' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const result = await env.DB.prepare(
+					`SELECT created_at / ${TIMESERIES_SLOT_MS} AS slot, sentiment, urgency, source, COUNT(*) AS count
+					FROM feedback WHERE ${filters.where}
+					GROUP BY slot, sentiment, urgency, source`
+				)
+					.bind(...filters.binds)
+					.all<{ slot: number; sentiment: string | null; urgency: number | null; source: string; count: number }>();
+
+				const buckets = new Map<string, TimeseriesBucket>();
+				for (const key of listBucketKeys(from, to, interval, timeZone)) {
+					buckets.set(key, { start: key, total: 0, sentiment: {}, urgency: {}, source: {} });
+				}
+
+				for (const row of result.results) {
+					const bucket = buckets.get(bucketKeyFor(row.slot * TIMESERIES_SLOT_MS, interval, timeZone));
+					if (!bucket) {
+						continue;
+					}
+					bucket.total += row.count;
+					bucket.source[row.source] = (bucket.source[row.source] || 0) + row.count;
+					if (row.sentiment) {
+						bucket.sentiment[row.sentiment] = (bucket.sentiment[row.sentiment] || 0) + row.count;
+					}
+					if (row.urgency) {
+						bucket.urgency[row.urgency] = (bucket.urgency[row.urgency] || 0) + row.count;
+					}
+				}
+
+				return new Response(
+					JSON.stringify({ interval, tz: timeZone, from, to, buckets: Array.from(buckets.values()) }),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Themes (GET /api/themes) - ?days= sized window, compared with the window before it
+			if (path === '/api/themes' && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '') || THEMES_DEFAULT_DAYS, 1), THEMES_MAX_DAYS);
+				const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '') || THEMES_DEFAULT_LIMIT, 1), THEMES_MAX_LIMIT);
+				const currentStart = Date.now() - days * 24 * 60 * 60 * 1000;
+				const previousStart = currentStart - days * 24 * 60 * 60 * 1000;
+
+				const result = await env.DB.prepare(
+					`SELECT themes.id, themes.name, themes.created_at, themes.last_seen_at,
+						SUM(CASE WHEN feedback.created_at >= ?1 THEN 1 ELSE 0 END) AS size,
+						SUM(CASE WHEN feedback.created_at >= ?1 AND feedback.sentiment = 'positive' THEN 1 ELSE 0 END) AS positive,
+						SUM(CASE WHEN feedback.created_at >= ?1 AND feedback.sentiment = 'neutral' THEN 1 ELSE 0 END) AS neutral,
+						SUM(CASE WHEN feedback.created_at >= ?1 AND feedback.sentiment = 'negative' THEN 1 ELSE 0 END) AS negative,
+						SUM(CASE WHEN feedback.created_at < ?1 THEN 1 ELSE 0 END) AS previous_size
+					FROM themes
+					JOIN feedback_themes ON feedback_themes.theme_id = themes.id
+					JOIN feedback ON feedback.id = feedback_themes.feedback_id
+					WHERE feedback.created_at >= ?2 AND feedback.deleted_at IS NULL
+					GROUP BY themes.id
+					HAVING size > 0
+					ORDER BY size DESC, themes.id ASC
+					LIMIT ?3`
+				)
+					.bind(currentStart, previousStart, limit)
+					.all<{
+						id: number;
+						name: string;
+						created_at: number;
+						last_seen_at: number;
+						size: number;
+						positive: number;
+						neutral: number;
+						negative: number;
+						previous_size: number;
+					}>();
+
+				const themes = result.results.map(({ positive, neutral, negative, ...theme }) => ({
+					...theme,
+					sentiment_counts: { positive, neutral, negative },
+					// Relative change against the previous window; null when the theme is new
+					growth: theme.previous_size > 0 ? (theme.size - theme.previous_size) / theme.previous_size : null,
+				}));
+
+				return new Response(JSON.stringify({ days, themes }), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: List digests (GET /api/digests) - ?period=daily|weekly, newest first
+			if (path === '/api/digests' && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '') || DIGESTS_DEFAULT_LIMIT, 1), DIGESTS_MAX_LIMIT);
+				const period = url.searchParams.get('period');
+				const result = await env.DB.prepare(
+					`SELECT id, period, period_start, period_end, headline, ai_model, created_at, delivered_at FROM digests
+					${period ? 'WHERE period = ?' : ''} ORDER BY period_start DESC, id DESC LIMIT ?`
+				)
+					.bind(...(period ? [period, limit] : [limit]))
+					.all();
+
+				return new Response(JSON.stringify(result.results), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Generate digest (POST /api/digests) - { period }, for the last complete period; returns the existing one if written
+			if (path === '/api/digests' && method === 'POST') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const body = await request.json() as { period?: string };
+				if (body.period !== 'daily' && body.period !== 'weekly') {
+					return new Response(
+						JSON.stringify({ error: 'period must be "daily" or "weekly"' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const { digest, created } = await generateDigest(env, body.period, Date.now());
+				await recordAudit(env, principal, 'digest.generate', 'digest', digest.id, { period: body.period, created });
+
+				return new Response(JSON.stringify(serializeDigest(digest)), {
+					status: created ? 201 : 200,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Get digest (GET /api/digests/:id) - JSON with rendered markdown, or ?format=markdown for the document alone
+			const digestMatch = path.match(/^\/api\/digests\/(\d+)$/);
+			if (digestMatch && method === 'GET') {
+				const denied = requireScope(principal, 'read', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const digest = await env.DB.prepare('SELECT * FROM digests WHERE id = ?').bind(parseInt(digestMatch[1])).first<DigestRow>();
+				if (!digest) {
+					return new Response(
+						JSON.stringify({ error: 'Digest not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				if (url.searchParams.get('format') === 'markdown') {
+					return new Response(renderDigestMarkdown(digest), {
+						headers: { ...corsHeaders, 'Content-Type': 'text/markdown; charset=utf-8' },
+					});
+				}
+
+				return new Response(JSON.stringify({ ...serializeDigest(digest), markdown: renderDigestMarkdown(digest) }), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Seed mock data (POST /api/seed) - development only
+			if (path === '/api/seed' && method === 'POST' && env.ENVIRONMENT === 'development') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const mockFeedback = [
+					{ source: 'github', text: 'The API is too slow, takes forever to respond' },
+					{ source: 'support', text: 'Love the new dashboard design! Very intuitive.' },
+					{ source: 'twitter', text: 'Billing page has a bug, charges are incorrect' },
+					{ source: 'email', text: 'Documentation needs more examples for beginners' },
+					{ source: 'github', text: 'Great work on the authentication system!' },
+					{ source: 'support', text: 'Feature request: dark mode support' },
+					{ source: 'twitter', text: 'The mobile app crashes on iOS 17' },
+					{ source: 'email', text: 'Thank you for the quick response to my issue' },
+					{ source: 'github', text: 'Performance has improved significantly in v2.0' },
+					{ source: 'support', text: 'Need help with integration, API docs unclear' },
+				];
+
+				const results = [];
+				for (const feedback of mockFeedback) {
+					const [insertResult] = await env.DB.batch(buildInsertFeedbackStatements(env, { ...feedback, created_at: Date.now() }));
+
+					results.push({ id: insertResult.meta.last_row_id, ...feedback });
+				}
+
+				await enqueueAnalysis(env, results.map((row) => row.id));
+
+				return new Response(
+					JSON.stringify({ message: `Seeded ${results.length} feedback entries`, results }),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Create API key (POST /api/keys)
+			if (path === '/api/keys' && method === 'POST') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const body = await request.json() as { name?: string; scopes?: string[] };
+				const name = body.name?.trim();
+				const scopes = body.scopes || [];
+
+				if (!name || scopes.length === 0 || !scopes.every((scope) => API_SCOPES.includes(scope as ApiScope))) {
+					return new Response(
+						JSON.stringify({ error: `Required fields: name, scopes (any of ${API_SCOPES.join(', ')})` }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// The plaintext key is returned once and never stored
+				const key = API_KEY_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(24)));
+				const keyPrefix = key.slice(0, API_KEY_PREFIX.length + 6);
+				const createdAt = Date.now();
+
+				const insertResult = await env.DB.prepare(
+					'INSERT INTO api_keys (name, key_prefix, key_hash, scopes, created_at) VALUES (?, ?, ?, ?, ?)'
+				)
+					.bind(name, keyPrefix, await sha256Hex(key), JSON.stringify(scopes), createdAt)
+					.run();
+				await recordAudit(env, principal, 'api_key.create', 'api_key', insertResult.meta.last_row_id, { name, scopes });
+
+				return new Response(
+					JSON.stringify({ id: insertResult.meta.last_row_id, name, key, key_prefix: keyPrefix, scopes, created_at: createdAt }),
+					{ status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: List API keys (GET /api/keys)
+			if (path === '/api/keys' && method === 'GET') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const result = await env.DB.prepare(
+					'SELECT id, name, key_prefix, scopes, created_at, last_used_at, revoked_at FROM api_keys ORDER BY created_at DESC'
+				).all<Omit<ApiKeyRow, 'key_hash'>>();
+
+				const keys = result.results.map((row) => ({ ...row, scopes: JSON.parse(row.scopes) as ApiScope[] }));
+
+				return new Response(JSON.stringify(keys), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Revoke API key (DELETE /api/keys/:id)
+			const apiKeyMatch = path.match(/^\/api\/keys\/(\d+)$/);
+			if (apiKeyMatch && method === 'DELETE') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const revoked = await env.DB.prepare(
+					'UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL RETURNING id'
+				)
+					.bind(Date.now(), parseInt(apiKeyMatch[1]))
+					.first<{ id: number }>();
+
+				if (!revoked) {
+					return new Response(
+						JSON.stringify({ error: 'API key not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				await recordAudit(env, principal, 'api_key.revoke', 'api_key', revoked.id);
+
+				return new Response(
+					JSON.stringify({ success: true, message: 'API key revoked' }),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Create connector (POST /api/connectors)
+			if (path === '/api/connectors' && method === 'POST') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const body = await readJsonObject<ConnectorInput>(request);
+				if (!body) {
+					return new Response(
+						JSON.stringify({ error: 'Expected a JSON object' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const input = validateConnectorInput(body, null);
+				if (input.error) {
+					return new Response(
+						JSON.stringify({ error: input.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const existing = await env.DB.prepare('SELECT id FROM connectors WHERE slug = ?').bind(body.slug).first();
+				if (existing) {
+					return new Response(
+						JSON.stringify({ error: `Connector "${body.slug}" already exists` }),
+						{ status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// The secret is returned on create and rotation only
+				const secret = toHex(crypto.getRandomValues(new Uint8Array(32)));
+				const authScheme = body.auth_scheme || 'shared_secret';
+				const now = Date.now();
+
+				const connector = await env.DB.prepare(
+					`INSERT INTO connectors (slug, name, source, auth_scheme, auth_header, secret, mappings, enabled, created_at, updated_at)
+					VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+				)
+					.bind(
+						body.slug,
+						body.name?.trim() || body.slug,
+						body.source?.trim() || body.slug,
+						authScheme,
+						body.auth_header?.trim() || CONNECTOR_DEFAULT_AUTH_HEADERS[authScheme],
+						secret,
+						JSON.stringify(body.mappings),
+						body.enabled === false ? 0 : 1,
+						now,
+						now
+					)
+					.first<ConnectorRow>();
+				await recordAudit(env, principal, 'connector.create', 'connector', connector!.id, { slug: connector!.slug });
+
+				return new Response(
+					JSON.stringify({ ...serializeConnector(connector!), secret }),
+					{ status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: List connectors (GET /api/connectors)
+			if (path === '/api/connectors' && method === 'GET') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const result = await env.DB.prepare('SELECT * FROM connectors ORDER BY slug').all<ConnectorRow>();
+
+				return new Response(JSON.stringify(result.results.map(serializeConnector)), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Update connector (PATCH /api/connectors/:id) - { rotate_secret: true } issues a new secret
+			const connectorMatch = path.match(/^\/api\/connectors\/(\d+)$/);
+			if (connectorMatch && method === 'PATCH') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const current = await env.DB.prepare('SELECT * FROM connectors WHERE id = ?')
+					.bind(parseInt(connectorMatch[1]))
+					.first<ConnectorRow>();
+
+				if (!current) {
+					return new Response(
+						JSON.stringify({ error: 'Connector not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const body = await readJsonObject<ConnectorInput & { rotate_secret?: boolean }>(request);
+				if (!body) {
+					return new Response(
+						JSON.stringify({ error: 'Expected a JSON object' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const input = validateConnectorInput(body, current);
+				if (input.error) {
+					return new Response(
+						JSON.stringify({ error: input.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const secret = body.rotate_secret ? toHex(crypto.getRandomValues(new Uint8Array(32))) : current.secret;
+				const authScheme = body.auth_scheme || current.auth_scheme;
+				// Switching scheme without naming a header moves to the new scheme's default header
+				const authHeader =
+					body.auth_header?.trim() ||
+					(body.auth_scheme && body.auth_scheme !== current.auth_scheme ? CONNECTOR_DEFAULT_AUTH_HEADERS[authScheme] : current.auth_header);
+
+				const connector = await env.DB.prepare(
+					`UPDATE connectors SET name = ?, source = ?, auth_scheme = ?, auth_header = ?, secret = ?, mappings = ?, enabled = ?, updated_at = ?
+					WHERE id = ? RETURNING *`
+				)
+					.bind(
+						body.name?.trim() || current.name,
+						body.source?.trim() || current.source,
+						authScheme,
+						authHeader,
+						secret,
+						body.mappings ? JSON.stringify(body.mappings) : current.mappings,
+						body.enabled === undefined ? current.enabled : body.enabled ? 1 : 0,
+						Date.now(),
+						current.id
+					)
+					.first<ConnectorRow>();
+				await recordAudit(env, principal, 'connector.update', 'connector', current.id, { fields: Object.keys(body) });
+
+				return new Response(
+					JSON.stringify(body.rotate_secret ? { ...serializeConnector(connector!), secret } : serializeConnector(connector!)),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Delete connector (DELETE /api/connectors/:id)
+			if (connectorMatch && method === 'DELETE') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const deleted = await env.DB.prepare('DELETE FROM connectors WHERE id = ? RETURNING id')
+					.bind(parseInt(connectorMatch[1]))
+					.first<{ id: number }>();
+
+				if (!deleted) {
+					return new Response(
+						JSON.stringify({ error: 'Connector not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				await recordAudit(env, principal, 'connector.delete', 'connector', deleted.id);
+
+				return new Response(
+					JSON.stringify({ success: true, message: 'Connector deleted' }),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Create alert rule (POST /api/alerts/rules)
+			if (path === '/api/alerts/rules' && method === 'POST') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const body = await readJsonObject<AlertRuleInput>(request);
+				if (!body) {
+					return new Response(
+						JSON.stringify({ error: 'Expected a JSON object' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const input = validateAlertRuleInput(body);
+				if (input.error) {
+					return new Response(
+						JSON.stringify({ error: input.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				if (body.theme_id != null && !(await env.DB.prepare('SELECT id FROM themes WHERE id = ?').bind(body.theme_id).first())) {
+					return new Response(
+						JSON.stringify({ error: `Theme ${body.theme_id} not found` }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// Webhook channels get a signing secret, returned on create and rotation only
+				const secret = body.channel === 'webhook' ? toHex(crypto.getRandomValues(new Uint8Array(32))) : null;
+				const now = Date.now();
+
+				const rule = await env.DB.prepare(
+					`INSERT INTO alert_rules (name, enabled, sentiment, min_urgency, source, tag, theme_id, volume_threshold, volume_window_minutes,
+						channel, target, secret, cooldown_minutes, created_at, updated_at)
+					VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+				)
+					.bind(
+						body.name!.trim(),
+						body.enabled === false ? 0 : 1,
+						body.sentiment ?? null,
+						body.min_urgency ?? null,
+						body.source?.trim() || null,
+						body.tag ? normalizeTag(body.tag) || null : null,
+						body.theme_id ?? null,
+						body.volume_threshold ?? null,
+						body.volume_window_minutes ?? null,
+						body.channel,
+						body.target!.trim(),
+						secret,
+						body.cooldown_minutes ?? ALERT_DEFAULT_COOLDOWN_MINUTES,
+						now,
+						now
+					)
+					.first<AlertRuleRow>();
+				await recordAudit(env, principal, 'alert_rule.create', 'alert_rule', rule!.id, { name: rule!.name });
+
+				return new Response(
+					JSON.stringify(secret ? { ...serializeAlertRule(rule!), secret } : serializeAlertRule(rule!)),
+					{ status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: List alert rules (GET /api/alerts/rules)
+			if (path === '/api/alerts/rules' && method === 'GET') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const result = await env.DB.prepare('SELECT * FROM alert_rules ORDER BY id').all<AlertRuleRow>();
+
+				return new Response(JSON.stringify(result.results.map(serializeAlertRule)), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Update alert rule (PATCH /api/alerts/rules/:id) - { rotate_secret: true } issues a new webhook secret
+			const alertRuleMatch = path.match(/^\/api\/alerts\/rules\/(\d+)$/);
+			if (alertRuleMatch && method === 'PATCH') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const current = await env.DB.prepare('SELECT * FROM alert_rules WHERE id = ?')
+					.bind(parseInt(alertRuleMatch[1]))
+					.first<AlertRuleRow>();
+
+				if (!current) {
+					return new Response(
+						JSON.stringify({ error: 'Alert rule not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const body = await readJsonObject<AlertRuleInput & { rotate_secret?: boolean }>(request);
+				if (!body) {
+					return new Response(
+						JSON.stringify({ error: 'Expected a JSON object' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const { secret: currentSecret, enabled: currentEnabled, ...currentInput } = current;
+				const rule: AlertRuleInput = { ...currentInput, enabled: currentEnabled === 1, ...body };
+				const input = validateAlertRuleInput(rule);
+				if (input.error) {
+					return new Response(
+						JSON.stringify({ error: input.error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				if (body.theme_id != null && !(await env.DB.prepare('SELECT id FROM themes WHERE id = ?').bind(body.theme_id).first())) {
+					return new Response(
+						JSON.stringify({ error: `Theme ${body.theme_id} not found` }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				// Switching to the webhook channel issues a secret; other channels don't keep one
+				const issueSecret = rule.channel === 'webhook' && (body.rotate_secret || !currentSecret);
+				const secret = rule.channel !== 'webhook' ? null : issueSecret ? toHex(crypto.getRandomValues(new Uint8Array(32))) : currentSecret;
+
+				const updated = await env.DB.prepare(
+					`UPDATE alert_rules SET name = ?, enabled = ?, sentiment = ?, min_urgency = ?, source = ?, tag = ?, theme_id = ?,
+						volume_threshold = ?, volume_window_minutes = ?, channel = ?, target = ?, secret = ?, cooldown_minutes = ?, updated_at = ?
+					WHERE id = ? RETURNING *`
+				)
+					.bind(
+						rule.name!.trim(),
+						rule.enabled ? 1 : 0,
+						rule.sentiment ?? null,
+						rule.min_urgency ?? null,
+						rule.source?.trim() || null,
+						rule.tag ? normalizeTag(rule.tag) || null : null,
+						rule.theme_id ?? null,
+						rule.volume_threshold ?? null,
+						rule.volume_window_minutes ?? null,
+						rule.channel,
+						rule.target!.trim(),
+						secret,
+						rule.cooldown_minutes ?? ALERT_DEFAULT_COOLDOWN_MINUTES,
+						Date.now(),
+						current.id
+					)
+					.first<AlertRuleRow>();
+				await recordAudit(env, principal, 'alert_rule.update', 'alert_rule', current.id, { fields: Object.keys(body) });
+
+				return new Response(
+					JSON.stringify(issueSecret ? { ...serializeAlertRule(updated!), secret } : serializeAlertRule(updated!)),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Delete alert rule (DELETE /api/alerts/rules/:id) - its delivery log goes with it
+			if (alertRuleMatch && method === 'DELETE') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const deleted = await env.DB.prepare('DELETE FROM alert_rules WHERE id = ? RETURNING id')
+					.bind(parseInt(alertRuleMatch[1]))
+					.first<{ id: number }>();
+
+				if (!deleted) {
+					return new Response(
+						JSON.stringify({ error: 'Alert rule not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				await recordAudit(env, principal, 'alert_rule.delete', 'alert_rule', deleted.id);
+
+				return new Response(
+					JSON.stringify({ success: true, message: 'Alert rule deleted' }),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Alert delivery log (GET /api/alerts/deliveries) - ?rule_id=, ?status=pending|sent|failed, newest first
+			if (path === '/api/alerts/deliveries' && method === 'GET') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const limit = Math.min(
+					Math.max(parseInt(url.searchParams.get('limit') || '') || ALERT_DELIVERIES_DEFAULT_LIMIT, 1),
+					ALERT_DELIVERIES_MAX_LIMIT
+				);
+				let query = 'SELECT * FROM alert_deliveries WHERE 1=1';
+				const binds: any[] = [];
+
+				const ruleId = url.searchParams.get('rule_id');
+				if (ruleId) {
+					query += ' AND rule_id = ?';
+					binds.push(parseInt(ruleId));
+				}
+
+				const status = url.searchParams.get('status');
+				if (status) {
+					query += ' AND status = ?';
+					binds.push(status);
+				}
+
+				query += ' ORDER BY id DESC LIMIT ?';
+				binds.push(limit);
+
+				const result = await env.DB.prepare(query)
+					.bind(...binds)
+					.all<AlertDeliveryRow>();
+
+				return new Response(
+					JSON.stringify(result.results.map((delivery) => ({ ...delivery, payload: JSON.parse(delivery.payload) as AlertNotification }))),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: List analyzer configs (GET /api/analyzer/configs) - ?scope= narrows to one source or "*"
+			if (path === '/api/analyzer/configs' && method === 'GET') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const scope = url.searchParams.get('scope');
+				const result = await env.DB.prepare(
+					`SELECT * FROM analyzer_configs ${scope ? 'WHERE scope = ?' : ''} ORDER BY scope ASC, version DESC`
+				)
+					.bind(...(scope ? [scope] : []))
+					.all<AnalyzerConfigRow>();
+
+				return new Response(JSON.stringify(result.results.map((config) => ({ ...config, active: config.active === 1 }))), {
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			// Route: Create analyzer config version (POST /api/analyzer/configs) - { activate: true } rolls it out at once
+			if (path === '/api/analyzer/configs' && method === 'POST') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const body = await request.json() as Partial<AnalyzerConfigRow> & { activate?: boolean };
+				const error = validateAnalyzerConfigInput(body);
+				if (error) {
+					return new Response(
+						JSON.stringify({ error }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const scope = body.scope?.trim() || ANALYZER_DEFAULT_SCOPE;
+				const config = await env.DB.prepare(
+					`INSERT INTO analyzer_configs (scope, version, model, prompt_template, max_tokens, temperature, created_at)
+					VALUES (?, (SELECT COALESCE(MAX(version), 0) + 1 FROM analyzer_configs WHERE scope = ?), ?, ?, ?, ?, ?)
+					RETURNING *`
+				)
+					.bind(scope, scope, body.model, body.prompt_template, body.max_tokens ?? 300, body.temperature ?? null, Date.now())
+					.first<AnalyzerConfigRow>();
+
+				if (body.activate) {
+					await activateAnalyzerConfig(env, config!);
+				}
+				await recordAudit(env, principal, 'analyzer_config.create', 'analyzer_config', config!.id, {
+					scope,
+					version: config!.version,
+					activate: !!body.activate,
+				});
+
+				return new Response(
+					JSON.stringify({ ...config, active: !!body.activate }),
+					{ status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Activate analyzer config (POST /api/analyzer/configs/:id/activate) - rolls its scope forward or back
+			// Route: Deactivate analyzer config (POST /api/analyzer/configs/:id/deactivate) - the source falls back to the default
+			const analyzerConfigMatch = path.match(/^\/api\/analyzer\/configs\/(\d+)\/(activate|deactivate)$/);
+			if (analyzerConfigMatch && method === 'POST') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const config = await env.DB.prepare('SELECT * FROM analyzer_configs WHERE id = ?')
+					.bind(parseInt(analyzerConfigMatch[1]))
+					.first<AnalyzerConfigRow>();
+
+				if (!config) {
+					return new Response(
+						JSON.stringify({ error: 'Analyzer config not found' }),
+						{ status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				if (analyzerConfigMatch[2] === 'activate') {
+					await activateAnalyzerConfig(env, config);
+				} else {
+					// Every source must still resolve to a configuration
+					if (config.scope === ANALYZER_DEFAULT_SCOPE) {
+						return new Response(
+							JSON.stringify({ error: 'The default configuration cannot be deactivated; activate another version instead' }),
+							{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+						);
+					}
+					await env.DB.prepare('UPDATE analyzer_configs SET active = 0 WHERE id = ?').bind(config.id).run();
+				}
+				await recordAudit(env, principal, analyzerConfigMatch[2] === 'activate' ? 'analyzer_config.activate' : 'analyzer_config.deactivate', 'analyzer_config', config.id);
+
+				return new Response(
+					JSON.stringify({ ...config, active: analyzerConfigMatch[2] === 'activate' }),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// Route: Audit log (GET /api/audit) - ?action=, ?actor=, ?target_type=&target_id=, newest first; ?before=<id> pages back
+			if (path === '/api/audit' && method === 'GET') {
+				const denied = requireScope(principal, 'admin', corsHeaders);
+				if (denied) {
+					return denied;
+				}
+
+				const targetId = url.searchParams.get('target_id');
+				if (targetId && !/^[1-9]\d*$/.test(targetId)) {
+					return new Response(
+						JSON.stringify({ error: 'target_id must be a positive integer' }),
+						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+					);
+				}
+
+				const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '') || AUDIT_LOG_DEFAULT_LIMIT, 1), AUDIT_LOG_MAX_LIMIT);
+				const conditions: string[] = [];
+				const binds: unknown[] = [];
+				for (const column of ['action', 'actor', 'target_type', 'target_id'] as const) {
+					const value = url.searchParams.get(column);
+					if (value) {
+						conditions.push(`${column} = ?`);
+						binds.push(column === 'target_id' ? Number(value) : value);
+					}
+				}
+				const before = parseInt(url.searchParams.get('before') || '');
+				if (!isNaN(before)) {
+					conditions.push('id < ?');
+					binds.push(before);
+				}
+
+				const result = await env.DB.prepare(
+					`SELECT * FROM audit_log ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''} ORDER BY id DESC LIMIT ?`
+				)
+					.bind(...binds, limit)
+					.all<AuditLogRow>();
+
+				return new Response(
+					JSON.stringify(result.results.map((entry) => ({ ...entry, details: entry.details ? JSON.parse(entry.details) : null }))),
+					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+				);
+			}
+
+			// 404 for unknown routes
+			return new Response('Not Found', { status: 404 });
+		} catch (error) {
+			console.error('Error:', error);
+			return new Response(
+				JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
+				{ status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+			);
+		}
+	},
+
+	async queue(batch: MessageBatch<AnalysisMessage>, env: Env, ctx: ExecutionContext): Promise<void> {
+		// Messages land on the dead-letter queue once every retry has failed
+		if (batch.queue === ANALYSIS_DLQ) {
+			for (const message of batch.messages) {
+				await markAnalysisFailed(env, message.body.feedback_id);
+				message.ack();
+			}
+			return;
+		}
+
+		for (const message of batch.messages) {
+			const feedbackId = message.body.feedback_id;
+
+			try {
+				await processFeedbackAnalysis(env, feedbackId);
+				message.ack();
+			} catch (error) {
+				const analysisError = error instanceof Error ? error.message : 'Unknown error';
+				console.error('AI analysis error:', error);
+
+				// Keep the row pending while retries remain, but record why the last attempt failed
+				await env.DB.prepare(`UPDATE feedback SET analysis_error = ? WHERE id = ? AND analysis_status = 'pending'`)
+					.bind(analysisError, feedbackId)
+					.run();
+
+				// Exponential backoff: 10s, 20s, 40s, ... capped at 10 minutes
+				const delaySeconds = Math.min(
+					ANALYSIS_RETRY_BASE_DELAY_SECONDS * 2 ** (message.attempts - 1),
+					ANALYSIS_RETRY_MAX_DELAY_SECONDS
+				);
+				message.retry({ delaySeconds });
+			}
+		}
+	},
+
+	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+		const digestPeriod = DIGEST_CRONS[controller.cron];
+		if (digestPeriod) {
+			ctx.waitUntil(generateDigest(env, digestPeriod, controller.scheduledTime).then(() => undefined));
+			return;
+		}
+
+		if (controller.cron === THEME_CLUSTER_CRON) {
+			ctx.waitUntil(clusterFeedbackThemes(env));
+			return;
+		}
+
+		ctx.waitUntil(sweepStuckAnalysis(env));
+		ctx.waitUntil(retryAlertDeliveries(env));
+		ctx.waitUntil(purgeDeletedFeedback(env));
+		ctx.waitUntil(
+			env.DB.prepare('DELETE FROM rate_limit_counters WHERE window_start < ?')
+				.bind(Date.now() - RATE_LIMIT_COUNTER_RETENTION_MS)
+				.run()
+		);
+	},
+
+	async email(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext): Promise<void> {
+		if (message.rawSize > EMAIL_MAX_BYTES) {
+			message.setReject('Message is too large');
+			return;
+		}
+
+		// Don't ingest out-of-office replies and other automated mail
+		const autoSubmitted = message.headers.get('Auto-Submitted');
+		if (autoSubmitted && autoSubmitted.toLowerCase() !== 'no') {
+			return;
+		}
+
+		const feedback = await parseEmailFeedback(message.raw, message.from);
+		if (!feedback) {
+			return;
+		}
+
+		// Mail is only limited per source; a rejected message bounces, so the sender knows to try again
+		const throttled = await checkIngestRateLimits(env, null, null, { [feedback.source]: 1 });
+		if (throttled) {
+			env.ANALYTICS?.writeDataPoint({
+				blobs: ['ingest_throttled', 'email', 'email', throttled.dimension],
+				doubles: [1, throttled.retry_after_seconds],
+				indexes: [new Date().toISOString().split('T')[0]],
+			});
+			message.setReject('Too many messages, try again later');
+			return;
+		}
+
+		const result = feedback.external_id
+			? await createDeliveredFeedback(env, 'email', feedback.external_id, feedback)
+			: { feedback_id: await createFeedback(env, feedback), duplicate: false };
+
+		// Emit analytics event for ingestion
+		env.ANALYTICS?.writeDataPoint({
+			blobs: ['ingest_received', 'email', 'email', result.duplicate ? 'duplicate' : 'pending'],
+			doubles: [1, 0],
+			indexes: [new Date().toISOString().split('T')[0]],
+		});
+	},
+} satisfies ExportedHandler<Env, AnalysisMessage>;
+
+// Fixed-window request counter. One instance per rate limit bucket (e.g. "ip:203.0.113.7");
+// Durable Object input gates serialize calls, so the read-increment-write below cannot race.
+// cost is how many requests a call counts as; an import counts once per row.
+export class RateLimiter extends DurableObject<Env> {
+	async consume(limit: number, windowSeconds: number, cost = 1): Promise<RateLimitResult> {
+		const windowMs = windowSeconds * 1000;
+		const now = Date.now();
+		const windowStart = now - (now % windowMs);
+
+		let window = await this.ctx.storage.get<{ start: number; count: number }>('window');
+		if (!window || window.start !== windowStart) {
+			window = { start: windowStart, count: 0 };
+		}
+
+		if (window.count + cost > limit) {
+			return { allowed: false, retry_after_seconds: Math.ceil((windowStart + windowMs - now) / 1000) };
+		}
+
+		window.count += cost;
+		await this.ctx.storage.put('window', window);
+		return { allowed: true, retry_after_seconds: 0 };
+	}
+}
+
+// Parse a JSON body that must be an object; null for invalid JSON, arrays and other values, which routes answer with a 400
+async function readJsonObject<T extends object = Record<string, unknown>>(request: Request): Promise<Partial<T> | null> {
+	try {
+		const body: unknown = await request.json();
+		return typeof body === 'object' && body !== null && !Array.isArray(body) ? (body as Partial<T>) : null;
+	} catch {
+		return null;
+	}
+}
+
+function getAllowedOrigin(request: Request, env: Env): string | null {
+	const origin = request.headers.get('Origin');
+	const allowed = (env.CORS_ALLOWED_ORIGINS || '').split(',').map((o) => o.trim()).filter(Boolean);
+	if (allowed.includes('*')) {
+		return '*';
+	}
+	return origin && allowed.includes(origin) ? origin : null;
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+// FTS snippets come back with matches between \u0001 and \u0002; escape the text, then mark the matches
+function highlightSnippet(snippet: string): string {
+	return escapeHtml(snippet).replace(/\u0001/g, '<mark>').replace(/\u0002/g, '</mark>');
+}
+
+function toHex(bytes: Uint8Array): string {
+	return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+	return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))));
+}
+
+// Resolve the bearer token to a principal: the ADMIN_API_KEY secret, or an unrevoked key from api_keys
+async function authenticateRequest(request: Request, env: Env, ctx: ExecutionContext): Promise<ApiPrincipal | null> {
+	const match = (request.headers.get('Authorization') || '').match(/^Bearer\s+(\S+)$/i);
+	if (!match) {
+		return null;
+	}
+
+	const keyHash = await sha256Hex(match[1]);
+
+	if (env.ADMIN_API_KEY) {
+		// Compare hashes so the check takes the same time whatever the input
+		const adminHash = await sha256Hex(env.ADMIN_API_KEY);
+		const encoder = new TextEncoder();
+		if (crypto.subtle.timingSafeEqual(encoder.encode(keyHash), encoder.encode(adminHash))) {
+			return { id: null, name: 'ADMIN_API_KEY', scopes: ['admin'] };
+		}
+	}
+
+	const row = await env.DB.prepare('SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL')
+		.bind(keyHash)
+		.first<ApiKeyRow>();
+
+	if (!row) {
+		return null;
+	}
+
+	ctx.waitUntil(env.DB.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').bind(Date.now(), row.id).run());
+
+	return { id: row.id, name: row.name, scopes: JSON.parse(row.scopes) as ApiScope[] };
+}
+
+// Returns a 401/403 response when the principal lacks the scope, or null when the request may proceed.
+// The admin scope grants every other scope.
+function requireScope(principal: ApiPrincipal | null, scope: ApiScope, corsHeaders: Record<string, string>): Response | null {
+	if (!principal) {
+		return new Response(
+			JSON.stringify({ error: 'Missing or invalid API key' }),
+			{ status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' } }
+		);
+	}
+
+	if (!principal.scopes.includes(scope) && !principal.scopes.includes('admin')) {
+		return new Response(
+			JSON.stringify({ error: `API key lacks the ${scope} scope` }),
+			{ status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+		);
+	}
+
+	return null;
+}
+
+// Count cost requests against a bucket, in the Durable Object by default or in D1 when RATE_LIMIT_BACKEND is "d1"
+async function consumeRateLimit(env: Env, bucket: string, limit: number, windowSeconds: number, cost = 1): Promise<RateLimitResult> {
+	if (env.RATE_LIMIT_BACKEND !== 'd1') {
+		const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(bucket));
+		return stub.consume(limit, windowSeconds, cost);
+	}
+
+	const windowMs = windowSeconds * 1000;
+	const now = Date.now();
+	const windowStart = now - (now % windowMs);
+
+	// Like the Durable Object, a denied request isn't counted: the update only applies while it fits the limit
+	const row = cost > limit
+		? null
+		: await env.DB.prepare(
+				`INSERT INTO rate_limit_counters (bucket, window_start, count) VALUES (?, ?, ?)
+				ON CONFLICT (bucket, window_start) DO UPDATE SET count = count + excluded.count WHERE count + excluded.count <= ?
+				RETURNING count`
+			)
+				.bind(bucket, windowStart, cost, limit)
+				.first<{ count: number }>();
+
+	if (!row) {
+		return { allowed: false, retry_after_seconds: Math.ceil((windowStart + windowMs - now) / 1000) };
+	}
+	return { allowed: true, retry_after_seconds: 0 };
+}
+
+// Check the per-key, per-IP and per-source limits in turn. A limit of 0 disables that dimension.
+// Every ingestion path calls this with the rows it is about to insert per source. The key is the credential
+// the rows came in with: an API key, or the webhook or connector that signed them. Email has neither a key nor an IP.
+async function checkIngestRateLimits(
+	env: Env,
+	request: Request | null,
+	key: string | null,
+	rowsBySource: Record<string, number>
+): Promise<{ dimension: RateLimitDimension; retry_after_seconds: number } | null> {
+	const windowSeconds = parseInt(env.RATE_LIMIT_WINDOW_SECONDS) || 60;
+	const clientIp = request?.headers.get('CF-Connecting-IP');
+	const rows = Object.values(rowsBySource).reduce((sum, count) => sum + count, 0);
+
+	const checks: { dimension: RateLimitDimension; bucket: string | null; limit: number; cost: number }[] = [
+		{ dimension: 'key', bucket: key ? `key:${key}` : null, limit: parseInt(env.RATE_LIMIT_PER_KEY) || 0, cost: rows },
+		{ dimension: 'ip', bucket: clientIp ? `ip:${clientIp}` : null, limit: parseInt(env.RATE_LIMIT_PER_IP) || 0, cost: rows },
+		...Object.entries(rowsBySource).map(([source, count]) => ({
+			dimension: 'source' as const,
+			bucket: `source:${source}`,
+			limit: parseInt(env.RATE_LIMIT_PER_SOURCE) || 0,
+			cost: count,
+		})),
+	];
+
+	for (const check of checks) {
+		if (!check.bucket || check.limit <= 0) {
+			continue;
+		}
+		const result = await consumeRateLimit(env, check.bucket, check.limit, windowSeconds, check.cost);
+		if (!result.allowed) {
+			return { dimension: check.dimension, retry_after_seconds: result.retry_after_seconds };
+		}
+	}
+
+	return null;
+}
+
+// 429 for throttled ingestion, recorded as an ingest_throttled event
+function throttledResponse(
+	env: Env,
+	endpoint: string,
+	source: string,
+	rows: number,
+	throttled: { dimension: RateLimitDimension; retry_after_seconds: number },
+	corsHeaders: Record<string, string>
+): Response {
+	env.ANALYTICS?.writeDataPoint({
+		blobs: ['ingest_throttled', endpoint, source, throttled.dimension],
+		doubles: [rows, throttled.retry_after_seconds],
+		indexes: [new Date().toISOString().split('T')[0]],
+	});
+
+	return new Response(
+		JSON.stringify({ error: `Rate limit exceeded (${throttled.dimension})` }),
+		{
+			status: 429,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(throttled.retry_after_seconds) },
+		}
+	);
+}
+
+// Verify a hex-encoded HMAC-SHA256 signature of body. crypto.subtle.verify compares in constant time.
+async function verifyHmacSha256(secret: string, body: string, signatureHex: string): Promise<boolean> {
+	if (!/^[0-9a-f]{64}$/i.test(signatureHex)) {
+		return false;
+	}
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify']);
+	const signature = new Uint8Array(signatureHex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+	return crypto.subtle.verify('HMAC', key, signature, encoder.encode(body));
+}
+
+// Map a GitHub webhook payload to a feedback row; null for events and actions we don't ingest
+function githubPayloadToFeedback(event: string, payload: GitHubIssuePayload): NewFeedback | null {
+	let item: GitHubItem | undefined;
+	let text: string;
+
+	if (event === 'issues' && payload.action === 'opened') {
+		item = payload.issue;
+		text = [item?.title, item?.body].filter(Boolean).join('\n\n');
+	} else if (event === 'issue_comment' && payload.action === 'created') {
+		item = payload.comment;
+		text = item?.body || '';
+	} else if (event === 'discussion' && payload.action === 'created') {
+		item = payload.discussion;
+		text = [item?.title, item?.body].filter(Boolean).join('\n\n');
+	} else {
+		return null;
+	}
+
+	// Skip bot chatter such as CI or dependency update comments
+	if (!item || !text.trim() || payload.sender?.type === 'Bot') {
+		return null;
+	}
+
+	return {
+		source: 'github',
+		text: text.trim(),
+		created_at: (item.created_at && Date.parse(item.created_at)) || Date.now(),
+		author: item.user?.login || payload.sender?.login || null,
+		external_id: `${event}:${item.id}`,
+		external_url: item.html_url || null,
+	};
+}
+
+// Redact PII from the text, author and metadata and build the statements that insert a feedback row. The feedback insert
+// comes first; the original text, when kept, is keyed on its integer primary key so last_insert_rowid() still names the row.
+function buildInsertFeedbackStatements(env: Env, feedback: NewFeedback): D1PreparedStatement[] {
+	const detectors = getPiiDetectors(env);
+	const redaction = redactPii(feedback.text, detectors);
+	const redacted = Object.keys(redaction.counts).length > 0;
+
+	// An email sender and subject or a GitHub login can carry PII too; their matches count with the text's.
+	// Only the text is kept in feedback_originals.
+	const counts = { ...redaction.counts };
+	const redactField = (value: string) => {
+		const result = redactPii(value, detectors);
+		for (const [detector, count] of Object.entries(result.counts) as [PiiDetector, number][]) {
+			counts[detector] = (counts[detector] ?? 0) + count;
+		}
+		return result.text;
+	};
+	const author = feedback.author ? redactField(feedback.author) : null;
+	const metadata = feedback.metadata
+		? Object.fromEntries(Object.entries(feedback.metadata).map(([key, value]) => [key, typeof value === 'string' ? redactField(value) : value]))
+		: null;
+
+	const statements = [
+		env.DB.prepare(
+			`INSERT INTO feedback (source, text, created_at, analysis_status, author, external_id, external_url, metadata, redaction_counts, language)
+			VALUES (?, ?, ?, 'pending', ?, ?, ?, ?, ?, ?)`
+		).bind(
+			feedback.source,
+			redaction.text,
+			feedback.created_at ?? Date.now(),
+			author,
+			feedback.external_id ?? null,
+			feedback.external_url ?? null,
+			metadata ? JSON.stringify(metadata) : null,
+			Object.keys(counts).length > 0 ? JSON.stringify(counts) : null,
+			detectLanguage(redaction.text)
+		),
+	];
+
+	if (redacted && env.PII_STORE_ORIGINAL === 'true') {
+		statements.push(
+			env.DB.prepare('INSERT INTO feedback_originals (feedback_id, text) VALUES (last_insert_rowid(), ?)').bind(feedback.text)
+		);
+	}
+
+	return statements;
+}
+
+// Detectors named in PII_REDACTION_DETECTORS, all of them when it isn't set; unknown names are ignored
+function getPiiDetectors(env: Env): PiiDetector[] {
+	const configured = (env.PII_REDACTION_DETECTORS ?? PII_DETECTORS.join(',')).split(',').map((name) => name.trim());
+	return PII_DETECTORS.filter((detector) => configured.includes(detector));
+}
+
+// Replace each detected value with a [REDACTED_<DETECTOR>] placeholder and count the replacements per detector
+function redactPii(text: string, detectors: PiiDetector[]): PiiRedaction {
+	const counts: PiiRedaction['counts'] = {};
+	let redacted = text;
+
+	for (const detector of PII_DETECTORS) {
+		if (!detectors.includes(detector)) {
+			continue;
+		}
+
+		const validate = PII_VALIDATORS[detector];
+		for (const pattern of PII_PATTERNS[detector]) {
+			redacted = redacted.replace(pattern, (match) => {
+				if (validate && !validate(match)) {
+					return match;
+				}
+				counts[detector] = (counts[detector] ?? 0) + 1;
+				return `[REDACTED_${detector.toUpperCase()}]`;
+			});
+		}
+	}
+
+	return { text: redacted, counts };
+}
+
+// Luhn checksum, so order numbers and other long digit runs aren't taken for card numbers
+function passesLuhnCheck(digits: string): boolean {
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = parseInt(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) {
+				digit -= 9;
+			}
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+// Check a connector request's shared secret header or HMAC-SHA256 signature of the raw body
+async function verifyConnectorRequest(connector: ConnectorRow, headers: Headers, rawBody: string): Promise<boolean> {
+	const provided = headers.get(connector.auth_header) || '';
+
+	if (connector.auth_scheme === 'hmac_sha256') {
+		return verifyHmacSha256(connector.secret, rawBody, provided.replace(/^sha256=/, ''));
+	}
+
+	// Compare hashes so the check takes the same time whatever the input
+	const encoder = new TextEncoder();
+	return crypto.subtle.timingSafeEqual(encoder.encode(await sha256Hex(provided)), encoder.encode(await sha256Hex(connector.secret)));
+}
+
+// Validate admin connector input; current is null on create, where slug and mappings are required
+function validateConnectorInput(body: ConnectorInput, current: ConnectorRow | null): { error?: string } {
+	if (!current) {
+		if (!body.slug || !CONNECTOR_SLUG_PATTERN.test(body.slug) || RESERVED_CONNECTOR_SLUGS.includes(body.slug)) {
+			return { error: 'slug must be 2-63 lowercase letters, digits or dashes, and not a built-in integration' };
+		}
+		if (!body.mappings) {
+			return { error: 'Missing required field: mappings' };
+		}
+	} else if (body.slug !== undefined && body.slug !== current.slug) {
+		return { error: 'slug cannot be changed' };
+	}
+
+	if (body.auth_scheme !== undefined && !CONNECTOR_AUTH_SCHEMES.includes(body.auth_scheme)) {
+		return { error: `auth_scheme must be one of: ${CONNECTOR_AUTH_SCHEMES.join(', ')}` };
+	}
+
+	if (body.auth_header !== undefined && !/^[A-Za-z0-9-]+$/.test(body.auth_header.trim())) {
+		return { error: 'auth_header must be a header name' };
+	}
+
+	if (body.mappings !== undefined) {
+		const mappings = body.mappings as unknown as Record<string, unknown>;
+		if (!mappings || typeof mappings !== 'object') {
+			return { error: 'mappings must be an object' };
+		}
+
+		const unknownField = Object.keys(mappings).find((field) => !CONNECTOR_MAPPING_FIELDS.includes(field));
+		if (unknownField) {
+			return { error: `Unknown mapping "${unknownField}", expected any of: ${CONNECTOR_MAPPING_FIELDS.join(', ')}` };
+		}
+
+		const textPaths = Array.isArray(mappings.text) ? mappings.text : [mappings.text];
+		const paths = [...textPaths, ...CONNECTOR_MAPPING_FIELDS.slice(1).filter((field) => field in mappings).map((field) => mappings[field])];
+		if (!mappings.text || textPaths.length === 0 || !paths.every((path) => typeof path === 'string' && path.trim() !== '')) {
+			return { error: 'mappings.text is required and every mapping must be a JSON path string' };
+		}
+	}
+
+	return {};
+}
+
+// Admin view of a connector: never includes the secret
+function serializeConnector(row: ConnectorRow) {
+	const { secret, ...connector } = row;
+	return {
+		...connector,
+		mappings: JSON.parse(row.mappings) as ConnectorMappings,
+		enabled: row.enabled === 1,
+		ingest_path: `/api/ingest/${row.slug}`,
+	};
+}
+
+// Read a dotted JSON path with array indices, e.g. "$.ticket.comments[0].body"
+function readJsonPath(value: unknown, path: string): unknown {
+	const segments = path.replace(/^\$\.?/, '').match(/[^.[\]]+/g) || [];
+	for (const segment of segments) {
+		if (value === null || typeof value !== 'object') {
+			return undefined;
+		}
+		value = (value as Record<string, unknown>)[segment];
+	}
+	return value;
+}
+
+// Scalar payload values as strings; objects and arrays aren't mappable
+function jsonPathString(payload: unknown, path: string | undefined): string | null {
+	if (!path) {
+		return null;
+	}
+	const value = readJsonPath(payload, path);
+	if (typeof value === 'string') {
+		return value.trim() || null;
+	}
+	return typeof value === 'number' || typeof value === 'boolean' ? String(value) : null;
+}
+
+// Apply a connector's field mappings to a webhook payload
+function mapConnectorPayload(connector: ConnectorRow, payload: unknown): { feedback?: NewFeedback; error?: string } {
+	const mappings = JSON.parse(connector.mappings) as ConnectorMappings;
+	const textPaths = Array.isArray(mappings.text) ? mappings.text : [mappings.text];
+
+	const text = textPaths
+		.map((path) => jsonPathString(payload, path))
+		.filter(Boolean)
+		.join('\n\n');
+	if (!text) {
+		return { error: `No text found at ${textPaths.join(', ')}` };
+	}
+
+	// Numeric timestamps may be epoch seconds or milliseconds
+	const createdAtValue = mappings.created_at ? readJsonPath(payload, mappings.created_at) : undefined;
+	let createdAt = Date.now();
+	if (typeof createdAtValue === 'number' && createdAtValue > 0) {
+		createdAt = createdAtValue < 1e12 ? createdAtValue * 1000 : createdAtValue;
+	} else if (typeof createdAtValue === 'string' && !Number.isNaN(Date.parse(createdAtValue))) {
+		createdAt = Date.parse(createdAtValue);
+	}
+
+	return {
+		feedback: {
+			source: jsonPathString(payload, mappings.source) || connector.source,
+			text,
+			created_at: createdAt,
+			author: jsonPathString(payload, mappings.author),
+			external_id: jsonPathString(payload, mappings.external_id),
+			external_url: jsonPathString(payload, mappings.external_url),
+		},
+	};
+}
+
+// Parse a raw MIME message into a feedback row: the reply text without quoted history or signature,
+// with the sender as author and the subject in metadata. Null when nothing is left to analyze.
+async function parseEmailFeedback(raw: ReadableStream<Uint8Array> | string, envelopeFrom: string): Promise<NewFeedback | null> {
+	const email = await PostalMime.parse(raw);
+
+	const body = email.text ?? htmlToText(email.html ?? '');
+	const subject = (email.subject || '').trim();
+	const text = stripEmailReply(body) || subject;
+	if (!text) {
+		return null;
+	}
+
+	const sender = email.from?.address ? email.from : { name: '', address: envelopeFrom };
+	return {
+		source: 'email',
+		text,
+		created_at: Date.parse(email.date || '') || Date.now(),
+		author: sender.address,
+		external_id: email.messageId || null,
+		metadata: { subject, from_name: sender.name || null },
+	};
+}
+
+// Cut an email body at the first quoted reply or signature and drop quoted lines
+function stripEmailReply(body: string): string {
+	const lines = body.replace(/\r\n?/g, '\n').split('\n');
+	const kept: string[] = [];
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trimEnd();
+
+		// Signature delimiter, mobile footers, Outlook separators
+		if (/^--\s?$/.test(line) || /^sent from my /i.test(line) || /^-{2,}\s*original message\s*-{2,}$/i.test(line) || /^_{10,}$/.test(line)) {
+			break;
+		}
+		// "On <date>, <name> wrote:" - clients may wrap it over two lines
+		if (/^on\s.+wrote:$/i.test(line) || (/^on\s/i.test(line) && /wrote:$/i.test((lines[i + 1] || '').trim()))) {
+			break;
+		}
+		// Outlook-style quoted header block: "From: ..." followed by "Sent:" or "Date:"
+		if (/^from:\s/i.test(line) && lines.slice(i + 1, i + 4).some((next) => /^(sent|date):\s/i.test(next))) {
+			break;
+		}
+		if (line.startsWith('>')) {
+			continue;
+		}
+		kept.push(line);
+	}
+
+	return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Plain-text fallback for HTML-only mail
+function htmlToText(html: string): string {
+	return html
+		.replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+		.replace(/<blockquote[^>]*>[\s\S]*?<\/blockquote>/gi, '')
+		.replace(/<br\s*\/?>|<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+		.replace(/<[^>]+>/g, '')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, '&');
+}
+
+// Insert and queue a pending feedback row
+async function createFeedback(env: Env, feedback: NewFeedback): Promise<number> {
+	const [insertResult] = await env.DB.batch(buildInsertFeedbackStatements(env, feedback));
+
+	const feedbackId = insertResult.meta.last_row_id;
+	await enqueueAnalysis(env, [feedbackId]);
+	return feedbackId;
+}
+
+// Insert a delivered feedback row and record its delivery id (webhook delivery, email Message-ID) in one transaction.
+// A redelivery hits the webhook_deliveries primary key, rolls back, and returns the original row.
+async function createDeliveredFeedback(
+	env: Env,
+	provider: string,
+	deliveryId: string,
+	feedback: NewFeedback
+): Promise<{ feedback_id: number | null; duplicate: boolean }> {
+	const existing = await env.DB.prepare('SELECT feedback_id FROM webhook_deliveries WHERE provider = ? AND delivery_id = ?')
+		.bind(provider, deliveryId)
+		.first<{ feedback_id: number | null }>();
+	if (existing) {
+		return { feedback_id: existing.feedback_id, duplicate: true };
+	}
+
+	try {
+		const [insertResult] = await env.DB.batch([
+			...buildInsertFeedbackStatements(env, feedback),
+			env.DB.prepare(
+				'INSERT INTO webhook_deliveries (provider, delivery_id, feedback_id, received_at) VALUES (?, ?, last_insert_rowid(), ?)'
+			).bind(provider, deliveryId, Date.now()),
+		]);
+
+		const feedbackId = insertResult.meta.last_row_id;
+		await enqueueAnalysis(env, [feedbackId]);
+		return { feedback_id: feedbackId, duplicate: false };
+	} catch (error) {
+		// Lost a race with a concurrent redelivery
+		if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+			return { feedback_id: null, duplicate: true };
+		}
+		throw error;
+	}
+}
+
+async function getFeedbackById(env: Env, feedbackId: number): Promise<FeedbackRow | null> {
+	return env.DB.prepare('SELECT * FROM feedback WHERE id = ? AND deleted_at IS NULL')
+		.bind(feedbackId)
+		.first<FeedbackRow>();
+}
+
+// Cursors are opaque to clients: base64url-encoded JSON of a FeedbackCursor
+function encodeFeedbackCursor(cursor: FeedbackCursor): string {
+	return btoa(JSON.stringify(cursor)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function decodeFeedbackCursor(cursor: string): FeedbackCursor | null {
+	try {
+		const decoded = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+		if (Number.isInteger(decoded?.created_at) && Number.isInteger(decoded?.id)) {
+			return { created_at: decoded.created_at, id: decoded.id };
+		}
+		if (Number.isInteger(decoded?.offset) && decoded.offset >= 0) {
+			return { offset: decoded.offset };
+		}
+		return null;
+	} catch (e) {
+		return null;
+	}
+}
+
+// Turn free-form user input into a safe FTS5 query: every word becomes a quoted term, all terms must match
+function buildSearchQuery(q: string): string | null {
+	const terms = q.match(/[\p{L}\p{N}_]+/gu);
+	if (!terms) {
+		return null;
+	}
+	return terms.map((term) => `"${term}"`).join(' ');
+}
+
+// Stream every row matching the filters, newest first, reading EXPORT_CHUNK_SIZE rows per pull
+function streamFeedbackExport(env: Env, filters: SqlFilter, format: ExportFormat): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	let cursor: { created_at: number; id: number } | null = null;
+	let rowCount = 0;
+	let started = false;
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			let output = '';
+			if (!started) {
+				started = true;
+				output += format === 'csv' ? EXPORT_COLUMNS.join(',') + '\r\n' : format === 'json' ? '[' : '';
+			}
+
+			let query = `SELECT ${EXPORT_COLUMNS.map((column) => 'feedback.' + column).join(', ')} FROM feedback WHERE ${filters.where}`;
+			const binds: any[] = [...filters.binds];
+			if (cursor) {
+				query += ' AND (feedback.created_at < ? OR (feedback.created_at = ? AND feedback.id < ?))';
+				binds.push(cursor.created_at, cursor.created_at, cursor.id);
+			}
+			query += ' ORDER BY feedback.created_at DESC, feedback.id DESC LIMIT ?';
+			binds.push(EXPORT_CHUNK_SIZE);
+
+			const result = await env.DB.prepare(query)
+				.bind(...binds)
+				.all<FeedbackRow>();
+
+			for (const row of result.results) {
+				output += formatExportRow(row, format, rowCount === 0);
+				rowCount++;
+			}
+
+			const lastRow = result.results[result.results.length - 1];
+			if (result.results.length < EXPORT_CHUNK_SIZE) {
+				if (format === 'json') {
+					output += ']';
+				}
+				controller.enqueue(encoder.encode(output));
+				controller.close();
+				return;
+			}
+
+			cursor = { created_at: lastRow.created_at, id: lastRow.id! };
+			controller.enqueue(encoder.encode(output));
+		},
+	});
+}
+
+// CSV gets ISO timestamps and tags flattened to "a; b"; JSON and NDJSON keep epoch ms and a tags array
+function formatExportRow(row: FeedbackRow, format: ExportFormat, isFirst: boolean): string {
+	let tags: string[] = [];
+	try {
+		tags = row.tags ? (JSON.parse(row.tags) as string[]) : [];
+	} catch (e) {
+		// Skip invalid JSON
+	}
+
+	if (format === 'csv') {
+		const values = EXPORT_COLUMNS.map((column) => {
+			if (column === 'tags') {
+				return tags.join('; ');
+			}
+			if (column === 'created_at') {
+				return new Date(row.created_at).toISOString();
+			}
+			return row[column];
+		});
+		return values.map(escapeCsvValue).join(',') + '\r\n';
+	}
+
+	const record = Object.fromEntries(EXPORT_COLUMNS.map((column) => [column, column === 'tags' ? tags : row[column] ?? null]));
+	if (format === 'ndjson') {
+		return JSON.stringify(record) + '\n';
+	}
+	return (isFirst ? '' : ',') + JSON.stringify(record);
+}
+
+// Text that a spreadsheet would read as a formula (=, +, -, @, tab or CR first) gets a leading ' so it stays text
+function escapeCsvValue(value: unknown): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+	return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+}
+
+type ParsedRecords = { rows: { line: number; values: Record<string, unknown> }[]; errors: ImportError[] } | { error: string };
+
+// RFC 4180 CSV: quoted fields may contain commas, escaped quotes ("") and newlines.
+// The first record is the header; each row reports the line it starts on.
+function parseCsvRecords(body: string): ParsedRecords {
+	const records: { line: number; fields: string[] }[] = [];
+	let fields: string[] = [];
+	let field = '';
+	let inQuotes = false;
+	let line = 1;
+	let recordLine = 1;
+
+	const endRecord = () => {
+		fields.push(field);
+		// Skip blank lines
+		if (fields.length > 1 || fields[0] !== '') {
+			records.push({ line: recordLine, fields });
+		}
+		fields = [];
+		field = '';
+	};
+
+	for (let i = 0; i < body.length; i++) {
+		const char = body[i];
+
+		if (inQuotes) {
+			if (char === '"' && body[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				if (char === '\n') {
+					line++;
+				}
+				field += char;
+			}
+		} else if (char === '"' && field === '') {
+			inQuotes = true;
+		} else if (char === ',') {
+			fields.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && body[i + 1] === '\n') {
+				i++;
+			}
+			endRecord();
+			line++;
+			recordLine = line;
+		} else {
+			field += char;
+		}
+	}
+
+	if (inQuotes) {
+		return { error: `Unterminated quoted field starting on line ${recordLine}` };
+	}
+	if (field !== '' || fields.length > 0) {
+		endRecord();
+	}
+
+	const [header, ...dataRecords] = records;
+	if (!header) {
+		return { error: 'CSV body is empty' };
+	}
+
+	const columns = header.fields.map((column) => column.replace(/^\uFEFF/, '').trim());
+	const rows: { line: number; values: Record<string, unknown> }[] = [];
+	const errors: ImportError[] = [];
+
+	for (const record of dataRecords) {
+		if (record.fields.length !== columns.length) {
+			errors.push({ line: record.line, error: `Expected ${columns.length} columns, found ${record.fields.length}` });
+			continue;
+		}
+		rows.push({ line: record.line, values: Object.fromEntries(columns.map((column, i) => [column, record.fields[i]])) });
+	}
+
+	return { rows, errors };
+}
+
+// One JSON object per line; blank lines are skipped
+function parseNdjsonRecords(body: string): ParsedRecords {
+	const rows: { line: number; values: Record<string, unknown> }[] = [];
+	const errors: ImportError[] = [];
+
+	body.split(/\r?\n/).forEach((raw, index) => {
+		const line = index + 1;
+		if (raw.trim() === '') {
+			return;
+		}
+		try {
+			const value = JSON.parse(raw);
+			if (!value || typeof value !== 'object' || Array.isArray(value)) {
+				errors.push({ line, error: 'Expected a JSON object' });
+				return;
+			}
+			rows.push({ line, values: value });
+		} catch (e) {
+			errors.push({ line, error: 'Invalid JSON' });
+		}
+	});
+
+	return { rows, errors };
+}
+
+// Accepts epoch milliseconds or an ISO 8601 date/time (date-only values are UTC midnight)
+function parseTimestampParam(value: string | null): number | null {
+	if (!value) {
+		return null;
+	}
+	const timestamp = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+	return isNaN(timestamp) ? null : timestamp;
+}
+
+// created_at range filter: from is inclusive, to is exclusive
+// Deleted rows are left out of every filtered query
+function buildDateRangeFilter(params: URLSearchParams): SqlFilter {
+	let where = 'feedback.deleted_at IS NULL';
+	const binds: any[] = [];
+
+	for (const [param, operator] of [['from', '>='], ['to', '<']] as const) {
+		const value = params.get(param);
+		if (!value) {
+			continue;
+		}
+		const timestamp = parseTimestampParam(value);
+		if (timestamp === null) {
+			return { where, binds, error: `Invalid ${param}: expected epoch milliseconds or an ISO 8601 date` };
+		}
+		where += ` AND feedback.created_at ${operator} ?`;
+		binds.push(timestamp);
+	}
+
+	return { where, binds };
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone });
+		return true;
+	} catch (e) {
+		return false;
+	}
+}
+
+// Local calendar date (YYYY-MM-DD) of a timestamp in the given time zone
+function localDateKey(timestamp: number, timeZone: string): string {
+	return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(timestamp);
+}
+
+// Shift a YYYY-MM-DD key by whole days
+function addDaysToKey(key: string, days: number): string {
+	const [year, month, day] = key.split('-').map(Number);
+	return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+// Day buckets are keyed by local date, week buckets by the local date of their Monday
+function bucketKeyFor(timestamp: number, interval: 'day' | 'week', timeZone: string): string {
+	const key = localDateKey(timestamp, timeZone);
+	if (interval === 'day') {
+		return key;
+	}
+	const [year, month, day] = key.split('-').map(Number);
+	const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+	return addDaysToKey(key, -((dayOfWeek + 6) % 7));
+}
+
+// Every bucket between from and to, so quiet periods show up as zeros
+function listBucketKeys(from: number, to: number, interval: 'day' | 'week', timeZone: string): string[] {
+	const keys: string[] = [];
+	const lastKey = bucketKeyFor(Math.max(from, to - 1), interval, timeZone);
+	for (let key = bucketKeyFor(from, interval, timeZone); key <= lastKey; key = addDaysToKey(key, interval === 'day' ? 1 : 7)) {
+		keys.push(key);
+	}
+	return keys;
+}
+
+// Build the WHERE clause shared by the feedback list and bulk reanalyze routes.
+// The list route joins the FTS index itself to get ranks and snippets, so it opts out of the search filter.
+function buildFeedbackFilters(params: URLSearchParams, options: { includeSearch?: boolean } = {}): SqlFilter {
+	const sources = params.getAll('source');
+	const sentiments = params.getAll('sentiment');
+	const urgencies = params.getAll('urgency');
+	const tags = normalizeTags(params.getAll('tag'));
+	const matchAllTags = params.get('tag_mode') === 'all';
+	const statuses = params.getAll('analysis_status');
+	const defaulted = params.get('analysis_defaulted');
+	const themeIds = params.getAll('theme').map((id) => parseInt(id)).filter((id) => !isNaN(id));
+	const languages = params.getAll('language');
+	const triageStatuses = params.getAll('status');
+	const assignees = params.getAll('assignee');
+	const search = options.includeSearch === false ? null : buildSearchQuery(params.get('q') || '');
+
+	const range = buildDateRangeFilter(params);
+	if (range.error) {
+		return range;
+	}
+
+	let where = range.where;
+	const binds: any[] = [...range.binds];
+
+	if (sources.length > 0) {
+		const placeholders = sources.map(() => '?').join(',');
+		where += ` AND source IN (${placeholders})`;
+		binds.push(...sources);
+	}
+
+	if (sentiments.length > 0) {
+		const placeholders = sentiments.map(() => '?').join(',');
+		where += ` AND sentiment IN (${placeholders})`;
+		binds.push(...sentiments);
+	}
+
+	if (urgencies.length > 0) {
+		const placeholders = urgencies.map(() => '?').join(',');
+		where += ` AND urgency IN (${placeholders})`;
+		binds.push(...urgencies.map(u => parseInt(u)));
+	}
+
+	if (tags.length > 0) {
+		// Filter by tags - any of the given tags by default, every one of them with tag_mode=all
+		const placeholders = tags.map(() => '?').join(',');
+		if (matchAllTags) {
+			where += ` AND feedback.id IN (SELECT feedback_id FROM feedback_tags WHERE tag IN (${placeholders}) GROUP BY feedback_id HAVING COUNT(*) = ?)`;
+			binds.push(...tags, tags.length);
+		} else {
+			where += ` AND feedback.id IN (SELECT feedback_id FROM feedback_tags WHERE tag IN (${placeholders}))`;
+			binds.push(...tags);
+		}
+	}
+
+	if (statuses.length > 0) {
+		const placeholders = statuses.map(() => '?').join(',');
+		where += ` AND analysis_status IN (${placeholders})`;
+		binds.push(...statuses);
+	}
+
+	if (defaulted === 'true' || defaulted === 'false') {
+		where += ' AND analysis_defaulted = ?';
+		binds.push(defaulted === 'true' ? 1 : 0);
+	}
+
+	if (themeIds.length > 0) {
+		const placeholders = themeIds.map(() => '?').join(',');
+		where += ` AND feedback.id IN (SELECT feedback_id FROM feedback_themes WHERE theme_id IN (${placeholders}))`;
+		binds.push(...themeIds);
+	}
+
+	if (languages.length > 0) {
+		const placeholders = languages.map(() => '?').join(',');
+		where += ` AND language IN (${placeholders})`;
+		binds.push(...languages);
+	}
+
+	if (triageStatuses.length > 0) {
+		const placeholders = triageStatuses.map(() => '?').join(',');
+		where += ` AND feedback.status IN (${placeholders})`;
+		binds.push(...triageStatuses);
+	}
+
+	if (assignees.length > 0) {
+		// "none" matches unassigned rows
+		const named = assignees.filter((assignee) => assignee !== 'none');
+		const conditions = [
+			...(named.length > 0 ? [`feedback.assignee IN (${named.map(() => '?').join(',')})`] : []),
+			...(named.length < assignees.length ? ['feedback.assignee IS NULL'] : []),
+		];
+		where += ` AND (${conditions.join(' OR ')})`;
+		binds.push(...named);
+	}
+
+	if (search) {
+		where += ' AND feedback.id IN (SELECT rowid FROM feedback_fts WHERE feedback_fts MATCH ?)';
+		binds.push(search);
+	}
+
+	return { where, binds };
+}
+
+// Append an entry to the audit log; a null principal is a scheduled job
+async function recordAudit(
+	env: Env,
+	principal: ApiPrincipal | null,
+	action: AuditAction,
+	targetType: string,
+	targetId: number | null,
+	details?: Record<string, unknown>
+): Promise<void> {
+	await env.DB.prepare(
+		'INSERT INTO audit_log (action, actor, actor_key_id, target_type, target_id, details, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+	)
+		.bind(action, principal?.name ?? 'system', principal?.id ?? null, targetType, targetId, details ? JSON.stringify(details) : null, Date.now())
+		.run();
+}
+
+function getDeletedRetentionMs(env: Env): number {
+	const days = parseInt(env.DELETED_FEEDBACK_RETENTION_DAYS);
+	return (isNaN(days) || days < 0 ? DELETED_FEEDBACK_DEFAULT_RETENTION_DAYS : days) * 24 * 60 * 60 * 1000;
+}
+
+// Cron: remove rows deleted longer ago than the retention period, with their vectors
+async function purgeDeletedFeedback(env: Env): Promise<void> {
+	const result = await env.DB.prepare('SELECT id FROM feedback WHERE deleted_at < ? ORDER BY deleted_at LIMIT ?')
+		.bind(Date.now() - getDeletedRetentionMs(env), PURGE_BATCH_SIZE)
+		.all<{ id: number }>();
+
+	const ids = result.results.map((row) => row.id);
+	if (ids.length === 0) {
+		return;
+	}
+
+	for (let i = 0; i < ids.length; i += ENQUEUE_CHUNK_SIZE) {
+		const chunk = ids.slice(i, i + ENQUEUE_CHUNK_SIZE);
+		await env.DB.prepare(`DELETE FROM feedback WHERE id IN (${chunk.map(() => '?').join(',')})`)
+			.bind(...chunk)
+			.run();
+	}
+	await recordAudit(env, null, 'feedback.purge', 'feedback', null, { ids });
+
+	// Similar-feedback queries skip ids missing from D1, so a failed vector delete only leaves an orphan behind
+	try {
+		await getVectorIndex(env).deleteByIds(ids.map(String));
+	} catch (error) {
+		console.error('Vectorize delete error:', error);
+	}
+}
+
+// Reset rows to pending, bump their attempt counter and send them to the analysis queue.
+// A manual reanalyze restarts the count, so the sweeper's ANALYSIS_MAX_ATTEMPTS budget applies again.
+async function enqueueAnalysis(env: Env, feedbackIds: number[], options: { resetAttempts?: boolean } = {}): Promise<void> {
+	const queuedAt = Date.now();
+
+	for (let i = 0; i < feedbackIds.length; i += ENQUEUE_CHUNK_SIZE) {
+		const chunk = feedbackIds.slice(i, i + ENQUEUE_CHUNK_SIZE);
+		const placeholders = chunk.map(() => '?').join(',');
+
+		await env.DB.prepare(
+			`UPDATE feedback 
+			SET analysis_status = 'pending', analysis_error = NULL,
+			    analysis_attempts = ${options.resetAttempts ? '1' : 'analysis_attempts + 1'}, analysis_queued_at = ?
+			WHERE id IN (${placeholders})`
+		)
+			.bind(queuedAt, ...chunk)
+			.run();
+
+		await env.ANALYSIS_QUEUE.sendBatch(chunk.map((id) => ({ body: { feedback_id: id } satisfies AnalysisMessage })));
+	}
+}
+
+// Cron sweeper: re-queue failed rows and rows that have sat in pending for too long
+async function sweepStuckAnalysis(env: Env): Promise<void> {
+	const staleBefore = Date.now() - ANALYSIS_STALE_AFTER_MS;
+
+	const result = await env.DB.prepare(
+		`SELECT id FROM feedback 
+		WHERE analysis_attempts < ? AND deleted_at IS NULL
+		  AND (analysis_status = 'failed'
+		       OR (analysis_status = 'pending' AND COALESCE(analysis_queued_at, created_at) < ?))
+		ORDER BY created_at ASC
+		LIMIT ?`
+	)
+		.bind(ANALYSIS_MAX_ATTEMPTS, staleBefore, SWEEP_BATCH_SIZE)
+		.all<{ id: number }>();
+
+	const ids = result.results.map((row) => row.id);
+	if (ids.length === 0) {
+		return;
+	}
+
+	await enqueueAnalysis(env, ids);
+
+	env.ANALYTICS?.writeDataPoint({
+		blobs: ['analysis_requeued', 'scheduled', 'all', 'pending'],
+		doubles: [ids.length, 0],
+		indexes: [new Date().toISOString().split('T')[0]],
+	});
+}
+
+// Run Workers AI analysis for a pending feedback row and store the result.
+// Throws when the model call or parsing fails so the queue consumer can retry.
+async function processFeedbackAnalysis(env: Env, feedbackId: number): Promise<void> {
+	const row = await getFeedbackById(env, feedbackId);
+
+	// Row was deleted or already analyzed (e.g. a duplicate delivery)
+	if (!row || row.analysis_status !== 'pending') {
+		return;
+	}
+
+	const config = await getActiveAnalyzerConfig(env, row.source);
+
+	// Rows ingested before language detection get it now; a reanalysis reuses the earlier translation
+	const language = row.language ?? detectLanguage(row.text);
+	const translated =
+		language && language !== TRANSLATION_TARGET_LANGUAGE ? (row.text_translated ?? (await translateText(env, row.text, language))) : null;
+	const analysisText = translated ?? row.text;
+
+	const aiStartTime = Date.now();
+	const result = await analyzeFeedbackText(env, analysisText, config);
+	const analysis = result.analysis;
+	const aiLatency = Date.now() - aiStartTime;
+
+	// A reanalysis of a reviewed row keeps the reviewer's values, so the new output is measured against them
+	const reviewed = row.reviewed_at != null;
+
+	await env.DB.batch([
+		env.DB.prepare(
+			`UPDATE feedback 
+			SET sentiment = ?, urgency = ?, tags = ?, summary = ?, 
+			    ai_sentiment = ?, ai_urgency = ?, ai_tags = ?, ai_summary = ?,
+			    ai_model = ?, ai_latency_ms = ?, analyzer_config_id = ?, prompt_version = ?,
+			    analysis_defaulted = ?, analysis_validation_errors = ?, language = ?, text_translated = ?,
+			    analysis_status = 'done', analysis_error = NULL
+			WHERE id = ?`
+		).bind(
+			reviewed ? row.sentiment : analysis.sentiment,
+			reviewed ? row.urgency : analysis.urgency,
+			reviewed ? row.tags : JSON.stringify(analysis.tags),
+			reviewed ? row.summary : analysis.summary,
+			analysis.sentiment,
+			analysis.urgency,
+			JSON.stringify(analysis.tags),
+			analysis.summary,
+			config.model,
+			aiLatency,
+			config.id,
+			config.version,
+			result.defaulted_fields.length > 0 ? 1 : 0,
+			result.defaulted_fields.length > 0 ? JSON.stringify(result.validation_errors) : null,
+			language,
+			translated,
+			feedbackId
+		),
+		...(reviewed ? [] : buildReplaceTagsStatements(env, feedbackId, analysis.tags)),
+	]);
+
+	// Emit analytics event for successful AI completion
+	env.ANALYTICS?.writeDataPoint({
+		blobs: [
+			'ai_completed',
+			'/api/feedback',
+			row.source,
+			analysis.sentiment,
+			result.defaulted_fields.length > 0 ? 'defaulted' : result.repaired ? 'repaired' : 'valid',
+		],
+		doubles: [1, aiLatency],
+		indexes: [new Date().toISOString().split('T')[0]],
+	});
+
+	// The analysis is already saved, so an embedding failure only leaves the row out of semantic search
+	try {
+		await getVectorIndex(env).upsert([
+			{
+				id: String(feedbackId),
+				values: await embedText(env, analysisText),
+				metadata: { source: row.source, created_at: row.created_at },
+			},
+		]);
+	} catch (error) {
+		console.error('Embedding error:', error);
+	}
+
+	// Failed notifications are retried from the delivery log, so they never send the row back through analysis
+	try {
+		await evaluateAlertRules(env, feedbackId, await getEnabledAlertRules(env));
+	} catch (error) {
+		console.error('Alert evaluation error:', error);
+	}
+}
+
+// Translate text to English with the Workers AI translation model
+async function translateText(env: Env, text: string, sourceLanguage: string): Promise<string> {
+	const result = (await env.AI.run(TRANSLATION_MODEL, {
+		text,
+		source_lang: sourceLanguage,
+		target_lang: TRANSLATION_TARGET_LANGUAGE,
+	})) as { translated_text?: string };
+	const translated = result.translated_text?.trim();
+	if (!translated) {
+		throw new Error('Translation model returned no text');
+	}
+	return translated;
+}
+
+// Best-effort language detection: by script for non-Latin text, by common function words for Latin text.
+// Latin text that no other language clearly wins is taken as English; null when there are no letters at all.
+function detectLanguage(text: string): string | null {
+	// Redaction placeholders are English words whatever the text's language
+	const cleaned = text.replace(/\[REDACTED_[A-Z_]+\]/g, ' ');
+	const letters = cleaned.match(/\p{L}/gu)?.length ?? 0;
+	if (letters === 0) {
+		return null;
+	}
+
+	for (const [language, pattern] of LANGUAGE_SCRIPTS) {
+		const count = cleaned.match(pattern)?.length ?? 0;
+		if (count > 0 && (language === 'ja' || count / letters >= LANGUAGE_SCRIPT_MIN_SHARE)) {
+			return language;
+		}
+	}
+
+	const words = cleaned.toLowerCase().match(/\p{L}+/gu) ?? [];
+	const scores = Object.entries(LANGUAGE_STOPWORDS).map(
+		([language, stopwords]) => [language, words.filter((word) => stopwords.includes(word)).length] as const
+	);
+	const english = scores.find(([language]) => language === TRANSLATION_TARGET_LANGUAGE)![1];
+	const [best, hits] = scores.reduce((top, score) => (score[1] > top[1] ? score : top));
+
+	return hits >= LANGUAGE_MIN_STOPWORD_HITS && hits > english ? best : TRANSLATION_TARGET_LANGUAGE;
+}
+
+// Embed text with the Workers AI embedding model
+async function embedText(env: Env, text: string): Promise<number[]> {
+	const result = (await env.AI.run(EMBEDDING_MODEL, { text: [text.slice(0, EMBEDDING_MAX_CHARS)] })) as { data?: number[][] };
+	const vector = result.data?.[0];
+	if (!vector) {
+		throw new Error('Embedding model returned no vector');
+	}
+	return vector;
+}
+
+// Vectorize by default, or the in-memory index when VECTORIZE_BACKEND is "memory" (tests, local dev without an index)
+function getVectorIndex(env: Env): VectorIndex {
+	return env.VECTORIZE_BACKEND === 'memory' ? memoryVectorIndex : env.VECTORIZE;
+}
+
+// Nearest feedback rows to a vector, best match first, loaded from D1
+async function findSimilarFeedback(env: Env, vector: number[], limit: number, excludeId?: number): Promise<SimilarFeedback[]> {
+	// Ask for one extra match since the row itself is usually the closest
+	const result = await getVectorIndex(env).query(vector, { topK: limit + 1 });
+	const matches = result.matches.filter((match) => match.id !== String(excludeId)).slice(0, limit);
+	if (matches.length === 0) {
+		return [];
+	}
+
+	const rows = await env.DB.prepare(`SELECT * FROM feedback WHERE id IN (${matches.map(() => '?').join(', ')}) AND deleted_at IS NULL`)
+		.bind(...matches.map((match) => parseInt(match.id)))
+		.all<FeedbackRow>();
+	const rowsById = new Map(rows.results.map((row) => [String(row.id), row]));
+
+	// Vectors of deleted rows stay until the purge, and may linger until Vectorize applies it
+	return matches.filter((match) => rowsById.has(match.id)).map((match) => ({ ...rowsById.get(match.id)!, score: match.score }));
+}
+
+// In-memory stand-in for Vectorize with cosine similarity. State lives as long as the isolate.
+class MemoryVectorIndex implements VectorIndex {
+	private vectors = new Map<string, VectorizeVector>();
+
+	async upsert(vectors: VectorizeVector[]): Promise<VectorizeAsyncMutation> {
+		for (const vector of vectors) {
+			this.vectors.set(vector.id, { ...vector, values: Array.from(vector.values) });
+		}
+		return { mutationId: crypto.randomUUID() };
+	}
+
+	async getByIds(ids: string[]): Promise<VectorizeVector[]> {
+		return ids.flatMap((id) => this.vectors.get(id) ?? []);
+	}
+
+	async deleteByIds(ids: string[]): Promise<VectorizeAsyncMutation> {
+		ids.forEach((id) => this.vectors.delete(id));
+		return { mutationId: crypto.randomUUID() };
+	}
+
+	async query(vector: VectorFloatArray | number[], options: VectorizeQueryOptions = {}): Promise<VectorizeMatches> {
+		const query = Array.from(vector);
+		const matches = [...this.vectors.values()]
+			.map((stored) => ({ id: stored.id, score: cosineSimilarity(query, Array.from(stored.values)) }))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, options.topK ?? 5);
+		return { matches, count: matches.length };
+	}
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const memoryVectorIndex = new MemoryVectorIndex();
+
+// Group recent feedback embeddings into themes with greedy (leader) clustering on cosine similarity,
+// name new themes with the model, and replace the theme assignments of the rows clustered in this run
+async function clusterFeedbackThemes(env: Env): Promise<void> {
+	const now = Date.now();
+	const windowStart = now - THEME_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+	const rows = await env.DB.prepare(
+		`SELECT id, text, summary, tags FROM feedback
+		WHERE analysis_status = 'done' AND deleted_at IS NULL AND created_at >= ?
+		ORDER BY created_at DESC, id DESC
+		LIMIT ?`
+	)
+		.bind(windowStart, THEME_MAX_ITEMS)
+		.all<Omit<ThemeCluster['members'][number], 'vector'>>();
+
+	const vectors = new Map<string, number[]>();
+	for (let i = 0; i < rows.results.length; i += VECTOR_FETCH_BATCH_SIZE) {
+		const ids = rows.results.slice(i, i + VECTOR_FETCH_BATCH_SIZE).map((row) => String(row.id));
+		for (const stored of await getVectorIndex(env).getByIds(ids)) {
+			vectors.set(stored.id, Array.from(stored.values));
+		}
+	}
+
+	const clusters: ThemeCluster[] = [];
+	for (const row of rows.results) {
+		const vector = vectors.get(String(row.id));
+		if (!vector) {
+			continue;
+		}
+
+		let best: ThemeCluster | null = null;
+		let bestScore = -1;
+		for (const cluster of clusters) {
+			const score = cosineSimilarity(vector, cluster.centroid);
+			if (score > bestScore) {
+				best = cluster;
+				bestScore = score;
+			}
+		}
+
+		if (best && bestScore >= THEME_SIMILARITY_THRESHOLD) {
+			best.members.push({ ...row, vector });
+			// Running mean keeps the centroid in step with its members
+			const size = best.members.length;
+			best.centroid = best.centroid.map((value, i) => value + (vector[i] - value) / size);
+		} else {
+			clusters.push({ centroid: vector, members: [{ ...row, vector }] });
+		}
+	}
+
+	// Biggest clusters pick their existing theme first; each theme is reused at most once
+	const themed = clusters.filter((cluster) => cluster.members.length >= THEME_MIN_SIZE).sort((a, b) => b.members.length - a.members.length);
+	const existing = (await env.DB.prepare('SELECT * FROM themes').all<ThemeRow>()).results.map((theme) => ({
+		...theme,
+		vector: JSON.parse(theme.centroid) as number[],
+	}));
+	const claimed = new Set<number>();
+
+	// Current assignments of the clustered rows, to tell which rows join a theme in this run. Ids are bound
+	// in chunks of 100 to stay under D1's parameter limit; rows past THEME_MAX_ITEMS keep their assignments.
+	const ids = rows.results.map((row) => row.id);
+	const idChunks: number[][] = [];
+	for (let i = 0; i < ids.length; i += 100) {
+		idChunks.push(ids.slice(i, i + 100));
+	}
+
+	const previousThemes = new Map<number, number>();
+	for (const chunk of idChunks) {
+		const previous = await env.DB.prepare(
+			`SELECT feedback_id, theme_id FROM feedback_themes WHERE feedback_id IN (${chunk.map(() => '?').join(', ')})`
+		)
+			.bind(...chunk)
+			.all<{ feedback_id: number; theme_id: number }>();
+		for (const row of previous.results) {
+			previousThemes.set(row.feedback_id, row.theme_id);
+		}
+	}
+	const joined: number[] = [];
+
+	const statements: D1PreparedStatement[] = idChunks.map((chunk) =>
+		env.DB.prepare(`DELETE FROM feedback_themes WHERE feedback_id IN (${chunk.map(() => '?').join(', ')})`).bind(...chunk)
+	);
+
+	for (const cluster of themed) {
+		let themeId: number | null = null;
+		let bestScore = THEME_MATCH_THRESHOLD;
+		for (const theme of existing) {
+			const score = cosineSimilarity(cluster.centroid, theme.vector);
+			if (!claimed.has(theme.id) && score >= bestScore) {
+				themeId = theme.id;
+				bestScore = score;
+			}
+		}
+
+		// A new theme is inserted in the same batch as its members. Theme ids only grow (AUTOINCREMENT) and the batch
+		// is one transaction, so MAX(id) right after the insert is the new theme's id.
+		let themeIdSql = '?';
+		if (themeId !== null) {
+			claimed.add(themeId);
+			statements.push(
+				env.DB.prepare('UPDATE themes SET centroid = ?, last_seen_at = ? WHERE id = ?').bind(JSON.stringify(cluster.centroid), now, themeId)
+			);
+		} else {
+			statements.push(
+				env.DB.prepare('INSERT INTO themes (name, centroid, created_at, last_seen_at) VALUES (?, ?, ?, ?)').bind(
+					await nameTheme(env, cluster),
+					JSON.stringify(cluster.centroid),
+					now,
+					now
+				)
+			);
+			themeIdSql = '(SELECT MAX(id) FROM themes)';
+		}
+
+		// Every member of a new theme joins it
+		joined.push(...cluster.members.filter((member) => themeId === null || previousThemes.get(member.id) !== themeId).map((member) => member.id));
+
+		// At most three bound values per row keeps each insert under D1's 100 parameter limit
+		for (let i = 0; i < cluster.members.length; i += 30) {
+			const chunk = cluster.members.slice(i, i + 30);
+			statements.push(
+				env.DB.prepare(
+					`INSERT INTO feedback_themes (feedback_id, theme_id, similarity) VALUES ${chunk.map(() => `(?, ${themeIdSql}, ?)`).join(', ')}`
+				).bind(
+					...chunk.flatMap((member) => [
+						member.id,
+						...(themeId !== null ? [themeId] : []),
+						cosineSimilarity(member.vector, cluster.centroid),
+					])
+				)
+			);
+		}
+	}
+
+	// Themes left without members are dropped, unless an alert rule still points at them
+	statements.push(
+		env.DB.prepare(
+			`DELETE FROM themes WHERE id NOT IN (SELECT theme_id FROM feedback_themes)
+			AND id NOT IN (SELECT theme_id FROM alert_rules WHERE theme_id IS NOT NULL)`
+		)
+	);
+
+	// Create the new themes and swap the old assignments for the new ones in one transaction
+	await env.DB.batch(statements);
+
+	env.ANALYTICS?.writeDataPoint({
+		blobs: ['themes_clustered', 'cron', String(themed.length)],
+		doubles: [rows.results.length, Date.now() - now],
+		indexes: [new Date().toISOString().split('T')[0]],
+	});
+
+	// Theme rules can only match once the row has a theme, so they're checked here rather than after analysis
+	const themeRules = await getEnabledAlertRules(env, { themeOnly: true });
+	if (themeRules.length > 0) {
+		for (const feedbackId of joined) {
+			await evaluateAlertRules(env, feedbackId, themeRules);
+		}
+	}
+}
+
+// Ask the model for a short name for a cluster, falling back to its most common tag
+async function nameTheme(env: Env, cluster: ThemeCluster): Promise<string> {
+	const samples = cluster.members.slice(0, THEME_NAME_SAMPLE_SIZE).map((member) => `- ${member.summary || member.text.slice(0, 200)}`);
+	const prompt = `The following customer feedback items share a common theme. Name the theme in 2-4 words and return ONLY valid JSON with no additional text:
+{
+  "name": "theme name"
+}
+
+Feedback:
+${samples.join('\n')}
+
+Return only the JSON object:`;
+
+	try {
+		const input: AiTextGenerationInput = { prompt, max_tokens: 50 };
+		const aiResponse = (await env.AI.run(AI_MODEL as keyof AiModels, input)) as AiTextGenerationOutput;
+
+		const jsonMatch = (aiResponse.response || '').match(/\{[\s\S]*\}/);
+		const name = jsonMatch ? (JSON.parse(jsonMatch[0]) as { name?: string }).name?.trim() : null;
+		if (name) {
+			return name.slice(0, 60);
+		}
+	} catch (error) {
+		console.error('Theme naming error:', error);
+	}
+
+	const tagCounts = new Map<string, number>();
+	for (const member of cluster.members) {
+		for (const tag of member.tags ? (JSON.parse(member.tags) as string[]) : []) {
+			tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+		}
+	}
+	const [topTag] = [...tagCounts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+	return topTag || 'Unnamed theme';
+}
+
+// Validate a whole alert rule: the create body, or the current rule merged with a PATCH body
+function validateAlertRuleInput(rule: AlertRuleInput): { error?: string } {
+	if (!rule.name?.trim()) {
+		return { error: 'Missing required field: name' };
+	}
+
+	if (!rule.channel || !ALERT_CHANNELS.includes(rule.channel)) {
+		return { error: `channel must be one of: ${ALERT_CHANNELS.join(', ')}` };
+	}
+
+	if (rule.channel === 'email' ? !/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(rule.target || '') : !isHttpsUrl(rule.target || '')) {
+		return { error: rule.channel === 'email' ? 'target must be an email address' : 'target must be an https URL' };
+	}
+
+	if (rule.sentiment != null && !ANALYSIS_JSON_SCHEMA.properties.sentiment.enum.includes(rule.sentiment)) {
+		return { error: `sentiment must be one of: ${ANALYSIS_JSON_SCHEMA.properties.sentiment.enum.join(', ')}` };
+	}
+
+	if (rule.min_urgency != null && !(Number.isInteger(rule.min_urgency) && rule.min_urgency >= 1 && rule.min_urgency <= 5)) {
+		return { error: 'min_urgency must be an integer from 1 to 5' };
+	}
+
+	if (rule.theme_id != null && !Number.isInteger(rule.theme_id)) {
+		return { error: 'theme_id must be a theme id' };
+	}
+
+	if ((rule.volume_threshold == null) !== (rule.volume_window_minutes == null)) {
+		return { error: 'volume_threshold and volume_window_minutes must be set together' };
+	}
+
+	if (rule.volume_threshold != null && !(Number.isInteger(rule.volume_threshold) && rule.volume_threshold >= 1)) {
+		return { error: 'volume_threshold must be a positive integer' };
+	}
+
+	if (
+		rule.volume_window_minutes != null &&
+		!(Number.isInteger(rule.volume_window_minutes) && rule.volume_window_minutes >= 1 && rule.volume_window_minutes <= ALERT_MAX_WINDOW_MINUTES)
+	) {
+		return { error: `volume_window_minutes must be an integer from 1 to ${ALERT_MAX_WINDOW_MINUTES}` };
+	}
+
+	if (rule.cooldown_minutes !== undefined && !(Number.isInteger(rule.cooldown_minutes) && rule.cooldown_minutes >= 0)) {
+		return { error: 'cooldown_minutes must be a non-negative integer' };
+	}
+
+	// A rule without conditions would notify on every row
+	const conditions = [rule.sentiment, rule.min_urgency, rule.source, rule.tag, rule.theme_id, rule.volume_threshold];
+	if (conditions.every((condition) => condition == null || condition === '')) {
+		return { error: 'A rule needs at least one of: sentiment, min_urgency, source, tag, theme_id, volume_threshold' };
+	}
+
+	return {};
+}
+
+function isHttpsUrl(value: string): boolean {
+	try {
+		return new URL(value).protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+function serializeAlertRule(row: AlertRuleRow) {
+	const { secret, ...rule } = row;
+	return { ...rule, enabled: row.enabled === 1 };
+}
+
+// A rule's conditions as GET /api/feedback filters, so alerts match exactly what the filtered list shows
+function alertRuleFilterParams(rule: AlertRuleRow): URLSearchParams {
+	const params = new URLSearchParams({ analysis_status: 'done' });
+	if (rule.sentiment) {
+		params.set('sentiment', rule.sentiment);
+	}
+	for (let urgency = rule.min_urgency ?? 6; urgency <= 5; urgency++) {
+		params.append('urgency', String(urgency));
+	}
+	if (rule.source) {
+		params.set('source', rule.source);
+	}
+	if (rule.tag) {
+		params.set('tag', rule.tag);
+	}
+	if (rule.theme_id) {
+		params.set('theme', String(rule.theme_id));
+	}
+	return params;
+}
+
+async function getEnabledAlertRules(env: Env, options: { themeOnly?: boolean } = {}): Promise<AlertRuleRow[]> {
+	const result = await env.DB.prepare(`SELECT * FROM alert_rules WHERE enabled = 1${options.themeOnly ? ' AND theme_id IS NOT NULL' : ''}`).all<AlertRuleRow>();
+	return result.results;
+}
+
+// Check rules against a row that was just analyzed or just joined a theme, and notify for each rule it trips.
+// A rule notifies at most once per row, and not again until its cooldown has passed.
+async function evaluateAlertRules(env: Env, feedbackId: number, rules: AlertRuleRow[]): Promise<void> {
+	for (const rule of rules) {
+		const filters = buildFeedbackFilters(alertRuleFilterParams(rule));
+		const row = await env.DB.prepare(`SELECT * FROM feedback WHERE ${filters.where} AND feedback.id = ?`)
+			.bind(...filters.binds, feedbackId)
+			.first<FeedbackRow>();
+		if (!row) {
+			continue;
+		}
+
+		const now = Date.now();
+		let count: number | null = null;
+		if (rule.volume_threshold !== null) {
+			const result = await env.DB.prepare(`SELECT COUNT(*) AS count FROM feedback WHERE ${filters.where} AND feedback.created_at >= ?`)
+				.bind(...filters.binds, now - rule.volume_window_minutes! * 60 * 1000)
+				.first<{ count: number }>();
+			count = result?.count ?? 0;
+			if (count < rule.volume_threshold) {
+				continue;
+			}
+		}
+
+		const notified = await env.DB.prepare('SELECT id FROM alert_deliveries WHERE rule_id = ? AND feedback_id = ?').bind(rule.id, feedbackId).first();
+		if (notified) {
+			continue;
+		}
+
+		// Claim the cooldown in one statement so concurrent queue consumers can't both fire the rule
+		const claimed = await env.DB.prepare(
+			'UPDATE alert_rules SET last_triggered_at = ? WHERE id = ? AND (last_triggered_at IS NULL OR last_triggered_at <= ?) RETURNING id'
+		)
+			.bind(now, rule.id, now - rule.cooldown_minutes * 60 * 1000)
+			.first();
+		if (!claimed) {
+			continue;
+		}
+
+		const notification: AlertNotification = {
+			rule: { id: rule.id, name: rule.name },
+			kind: count === null ? 'match' : 'volume',
+			feedback: {
+				id: feedbackId,
+				source: row.source,
+				text: row.text,
+				sentiment: row.sentiment,
+				urgency: row.urgency,
+				summary: row.summary,
+				tags: row.tags ? JSON.parse(row.tags) : [],
+				external_url: row.external_url,
+			},
+			count,
+			window_minutes: rule.volume_window_minutes,
+			triggered_at: now,
+		};
+
+		// The first retry is already scheduled, so a consumer dying mid-send still leaves the delivery to the sweeper
+		const delivery = await env.DB.prepare(
+			`INSERT INTO alert_deliveries (rule_id, feedback_id, channel, payload, status, attempts, created_at, next_attempt_at)
+			VALUES (?, ?, ?, ?, 'pending', 0, ?, ?) RETURNING *`
+		)
+			.bind(rule.id, feedbackId, rule.channel, JSON.stringify(notification), now, now + ALERT_RETRY_DELAYS_MINUTES[0] * 60 * 1000)
+			.first<AlertDeliveryRow>();
+
+		await attemptAlertDelivery(env, rule, delivery!);
+	}
+}
+
+// Send a delivery once; failures are scheduled for a retry until ALERT_MAX_ATTEMPTS, then marked failed
+async function attemptAlertDelivery(env: Env, rule: AlertRuleRow, delivery: AlertDeliveryRow): Promise<void> {
+	const attempts = delivery.attempts + 1;
+
+	try {
+		await ALERT_SENDERS[rule.channel](env, rule, delivery);
+		await env.DB.prepare(
+			`UPDATE alert_deliveries SET status = 'sent', attempts = ?, last_error = NULL, next_attempt_at = NULL, delivered_at = ? WHERE id = ?`
+		)
+			.bind(attempts, Date.now(), delivery.id)
+			.run();
+	} catch (error) {
+		console.error('Alert delivery error:', error);
+		const retryDelay = attempts < ALERT_MAX_ATTEMPTS ? ALERT_RETRY_DELAYS_MINUTES[attempts - 1] : null;
+		await env.DB.prepare('UPDATE alert_deliveries SET status = ?, attempts = ?, last_error = ?, next_attempt_at = ? WHERE id = ?')
+			.bind(
+				retryDelay === null ? 'failed' : 'pending',
+				attempts,
+				error instanceof Error ? error.message : String(error),
+				retryDelay === null ? null : Date.now() + retryDelay * 60 * 1000,
+				delivery.id
+			)
+			.run();
+	}
+
+	env.ANALYTICS?.writeDataPoint({
+		blobs: ['alert_delivery', rule.channel, String(rule.id)],
+		doubles: [attempts],
+		indexes: [new Date().toISOString().split('T')[0]],
+	});
+}
+
+// Cron sweeper: retry deliveries whose next attempt is due
+async function retryAlertDeliveries(env: Env): Promise<void> {
+	const due = await env.DB.prepare(
+		`SELECT * FROM alert_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT ?`
+	)
+		.bind(Date.now(), ALERT_RETRY_BATCH_SIZE)
+		.all<AlertDeliveryRow>();
+
+	for (const delivery of due.results) {
+		const rule = await env.DB.prepare('SELECT * FROM alert_rules WHERE id = ?').bind(delivery.rule_id).first<AlertRuleRow>();
+		if (rule) {
+			await attemptAlertDelivery(env, rule, delivery);
+		}
+	}
+}
+
+// One sender per channel; each throws when the notification wasn't accepted
+const ALERT_SENDERS: Record<AlertChannel, (env: Env, rule: AlertRuleRow, delivery: AlertDeliveryRow) => Promise<void>> = {
+	// Slack incoming webhook
+	slack: async (_env, rule, delivery) => {
+		const text = formatAlertText(JSON.parse(delivery.payload) as AlertNotification, true);
+		await postWebhook(rule.target, JSON.stringify({ text }), {});
+	},
+
+	// The notification as JSON, signed like GitHub webhooks with the rule's secret
+	webhook: async (_env, rule, delivery) => {
+		await postWebhook(rule.target, delivery.payload, {
+			'X-Alert-Delivery': String(delivery.id),
+			'X-Signature-256': `sha256=${await signHmacSha256(rule.secret!, delivery.payload)}`,
+		});
+	},
+
+	// Plain-text email through the send_email binding; the target must be a verified destination address
+	email: async (env, rule, delivery) => {
+		if (!env.ALERT_EMAIL_FROM) {
+			throw new Error('ALERT_EMAIL_FROM is not configured');
+		}
+
+		const raw = [
+			`From: Feedback Radar <${env.ALERT_EMAIL_FROM}>`,
+			`To: ${rule.target}`,
+			`Subject: ${encodeMimeHeader(`[Feedback Radar] ${rule.name}`)}`,
+			`Message-ID: <alert-${delivery.id}@${env.ALERT_EMAIL_FROM.split('@')[1]}>`,
+			`Date: ${new Date().toUTCString()}`,
+			'MIME-Version: 1.0',
+			'Content-Type: text/plain; charset=utf-8',
+			'Content-Transfer-Encoding: 8bit',
+			'',
+			formatAlertText(JSON.parse(delivery.payload) as AlertNotification, false),
+		].join('\r\n');
+
+		await env.ALERT_EMAIL.send(new EmailMessage(env.ALERT_EMAIL_FROM, rule.target, raw));
+	},
+};
+
+async function postWebhook(url: string, body: string, headers: Record<string, string>): Promise<void> {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body,
+		signal: AbortSignal.timeout(WEBHOOK_REQUEST_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		throw new Error(`${new URL(url).host} responded with ${response.status}`);
+	}
+}
+
+async function signHmacSha256(secret: string, body: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return toHex(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(body))));
+}
+
+// RFC 2047 encoded-word for non-ASCII header values; line breaks are dropped so names can't inject headers
+function encodeMimeHeader(value: string): string {
+	const line = value.replace(/[\r\n]+/g, ' ');
+	if (/^[\x20-\x7e]*$/.test(line)) {
+		return line;
+	}
+	return `=?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode(line)))}?=`;
+}
+
+// Alert text for Slack (mrkdwn, escaped) or plain-text email
+function formatAlertText(notification: AlertNotification, slack: boolean): string {
+	const escape = (value: string) => (slack ? value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;') : value);
+	const { feedback } = notification;
+	const title = slack ? `*${escape(notification.rule.name)}*` : notification.rule.name;
+
+	const lines = [
+		notification.kind === 'volume'
+			? `${title}: ${notification.count} matching feedback items in the last ${notification.window_minutes} minutes. Latest:`
+			: `${title}: new matching feedback`,
+		`#${feedback.id} from ${escape(feedback.source)} - ${feedback.sentiment}, urgency ${feedback.urgency}` +
+			(feedback.tags.length > 0 ? `, tags: ${escape(feedback.tags.join(', '))}` : ''),
+	];
+	if (feedback.summary) {
+		lines.push(escape(feedback.summary));
+	}
+	lines.push(`> ${escape(feedback.text.slice(0, 500)).replace(/\n/g, '\n> ')}`);
+	if (feedback.external_url) {
+		lines.push(feedback.external_url);
+	}
+	return lines.join('\n');
+}
+
+// Write the digest for the last complete period before `now`; an existing digest for that period is returned as is
+async function generateDigest(env: Env, period: DigestPeriod, now: number): Promise<{ digest: DigestRow; created: boolean }> {
+	const dayMs = 24 * 60 * 60 * 1000;
+	const periodEnd = Math.floor(now / dayMs) * dayMs;
+	const periodStart = periodEnd - DIGEST_PERIOD_DAYS[period] * dayMs;
+
+	// Skip the model call when the period already has a digest; the insert below settles concurrent runs
+	const existing = await env.DB.prepare('SELECT * FROM digests WHERE period = ? AND period_start = ?').bind(period, periodStart).first<DigestRow>();
+	if (existing) {
+		return { digest: existing, created: false };
+	}
+
+	const stats = await collectDigestStats(env, periodStart, periodEnd);
+	const candidates = await getDigestQuoteCandidates(env, periodStart, periodEnd);
+	const written = await writeDigest(env, period, stats, candidates);
+
+	// Cron retries and manual runs don't write a second digest for the same period: only the run that inserts delivers it
+	const digest = await env.DB.prepare(
+		`INSERT INTO digests (period, period_start, period_end, headline, content, stats, ai_model, created_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+		ON CONFLICT (period, period_start) DO NOTHING RETURNING *`
+	)
+		.bind(period, periodStart, periodEnd, written.content.headline, JSON.stringify(written.content), JSON.stringify(stats), written.model, Date.now())
+		.first<DigestRow>();
+	if (!digest) {
+		const winner = await env.DB.prepare('SELECT * FROM digests WHERE period = ? AND period_start = ?').bind(period, periodStart).first<DigestRow>();
+		return { digest: winner!, created: false };
+	}
+
+	if (env.DIGEST_WEBHOOK_URL) {
+		let deliveryError: string | null = null;
+		try {
+			await postWebhook(
+				env.DIGEST_WEBHOOK_URL,
+				JSON.stringify({ ...serializeDigest(digest), markdown: renderDigestMarkdown(digest) }),
+				{}
+			);
+		} catch (error) {
+			console.error('Digest delivery error:', error);
+			deliveryError = error instanceof Error ? error.message : String(error);
+		}
+		await env.DB.prepare('UPDATE digests SET delivered_at = ?, delivery_error = ? WHERE id = ?')
+			.bind(deliveryError ? null : Date.now(), deliveryError, digest.id)
+			.run();
+		digest.delivered_at = deliveryError ? null : Date.now();
+		digest.delivery_error = deliveryError;
+	}
+
+	env.ANALYTICS?.writeDataPoint({
+		blobs: ['digest_created', period, written.model ?? 'fallback'],
+		doubles: [stats.total],
+		indexes: [new Date().toISOString().split('T')[0]],
+	});
+
+	return { digest, created: true };
+}
+
+// The numbers a digest is written from: this period against the one before it
+async function collectDigestStats(env: Env, start: number, end: number): Promise<DigestStats> {
+	const previousStart = start - (end - start);
+
+	const sentiments = await env.DB.prepare(
+		`SELECT created_at >= ?1 AS current, COALESCE(sentiment, 'pending') AS sentiment, COUNT(*) AS count
+		FROM feedback WHERE created_at >= ?2 AND created_at < ?3 AND deleted_at IS NULL
+		GROUP BY current, sentiment`
+	)
+		.bind(start, previousStart, end)
+		.all<{ current: number; sentiment: string; count: number }>();
+
+	const themes = await env.DB.prepare(
+		`SELECT themes.id, themes.name,
+			SUM(CASE WHEN feedback.created_at >= ?1 THEN 1 ELSE 0 END) AS size,
+			SUM(CASE WHEN feedback.created_at >= ?1 AND feedback.sentiment = 'negative' THEN 1 ELSE 0 END) AS negative,
+			SUM(CASE WHEN feedback.created_at < ?1 THEN 1 ELSE 0 END) AS previous_size
+		FROM themes
+		JOIN feedback_themes ON feedback_themes.theme_id = themes.id
+		JOIN feedback ON feedback.id = feedback_themes.feedback_id
+		WHERE feedback.created_at >= ?2 AND feedback.created_at < ?3 AND feedback.deleted_at IS NULL
+		GROUP BY themes.id
+		HAVING size > 0
+		ORDER BY size DESC, themes.id ASC
+		LIMIT ?4`
+	)
+		.bind(start, previousStart, end, DIGEST_TOP_THEMES)
+		.all<DigestStats['themes'][number]>();
+
+	const tags = await env.DB.prepare(
+		`SELECT feedback_tags.tag,
+			SUM(CASE WHEN feedback.created_at >= ?1 THEN 1 ELSE 0 END) AS count,
+			SUM(CASE WHEN feedback.created_at >= ?1 AND feedback.sentiment = 'negative' THEN 1 ELSE 0 END) AS negative,
+			SUM(CASE WHEN feedback.created_at < ?1 THEN 1 ELSE 0 END) AS previous_count
+		FROM feedback_tags JOIN feedback ON feedback.id = feedback_tags.feedback_id
+		WHERE feedback.created_at >= ?2 AND feedback.created_at < ?3 AND feedback.deleted_at IS NULL
+		GROUP BY feedback_tags.tag
+		HAVING count > 0
+		ORDER BY count DESC, feedback_tags.tag ASC
+		LIMIT ?4`
+	)
+		.bind(start, previousStart, end, DIGEST_TOP_TAGS)
+		.all<DigestStats['tags'][number]>();
+
+	const newThemes = await env.DB.prepare('SELECT name FROM themes WHERE created_at >= ? AND created_at < ? ORDER BY id')
+		.bind(start, end)
+		.all<{ name: string }>();
+
+	const stats: DigestStats = {
+		total: 0,
+		previous_total: 0,
+		sentiment_counts: {},
+		previous_sentiment_counts: {},
+		themes: themes.results,
+		tags: tags.results,
+		new_themes: newThemes.results.map((theme) => theme.name),
+	};
+	for (const row of sentiments.results) {
+		if (row.current) {
+			stats.total += row.count;
+			stats.sentiment_counts[row.sentiment] = row.count;
+		} else {
+			stats.previous_total += row.count;
+			stats.previous_sentiment_counts[row.sentiment] = row.count;
+		}
+	}
+	return stats;
+}
+
+// Rows the model may quote: the most urgent negative ones and the latest positive ones, in English where translated
+async function getDigestQuoteCandidates(env: Env, start: number, end: number): Promise<DigestQuoteCandidate[]> {
+	const query = `SELECT id, source, sentiment, urgency, COALESCE(text_translated, text) AS text
+		FROM feedback WHERE analysis_status = 'done' AND deleted_at IS NULL AND sentiment = ? AND created_at >= ? AND created_at < ?
+		ORDER BY urgency DESC, created_at DESC LIMIT ?`;
+	const [negative, positive] = await env.DB.batch<DigestQuoteCandidate>([
+		env.DB.prepare(query).bind('negative', start, end, DIGEST_QUOTE_CANDIDATES),
+		env.DB.prepare(query).bind('positive', start, end, Math.ceil(DIGEST_QUOTE_CANDIDATES / 3)),
+	]);
+	return [...negative.results, ...positive.results];
+}
+
+// Ask the model for the narrative. Quotes are looked up by id so the digest never carries text the model made up.
+// Output that doesn't match DIGEST_JSON_SCHEMA falls back to a digest built from the numbers alone.
+async function writeDigest(
+	env: Env,
+	period: DigestPeriod,
+	stats: DigestStats,
+	candidates: DigestQuoteCandidate[]
+): Promise<{ content: DigestContent; model: string | null }> {
+	const candidatesById = new Map(candidates.map((candidate) => [candidate.id, candidate]));
+	const quote = (candidate: DigestQuoteCandidate, why: string) => ({
+		feedback_id: candidate.id,
+		source: candidate.source,
+		quote: candidate.text.length > DIGEST_QUOTE_MAX_CHARS ? candidate.text.slice(0, DIGEST_QUOTE_MAX_CHARS) + '…' : candidate.text,
+		why,
+	});
+
+	if (stats.total > 0) {
+		const prompt = `You write a ${period} digest of customer feedback for product managers. Using only the data below, return ONLY valid JSON with no additional text:
+{
+  "headline": "one sentence on the most important change",
+  "summary": "2-4 sentences of narrative",
+  "top_themes": ["up to 5 lines, one per theme, on what people are saying"],
+  "got_worse": ["up to 5 lines on themes, tags or sentiment that got worse than the previous period"],
+  "notable_quotes": [{ "feedback_id": 123, "why": "why this quote matters" }],
+  "new_issues": ["up to 5 lines on issues that did not appear in the previous period"]
+}
+Pick at most 3 notable_quotes, by feedback_id, from the quote candidates.
+
+Stats (this period against the previous one):
+${JSON.stringify(stats)}
+
+Quote candidates:
+${JSON.stringify(candidates.map((candidate) => ({ ...candidate, text: candidate.text.slice(0, DIGEST_QUOTE_MAX_CHARS) })))}
+
+Return only the JSON object:`;
+
+		try {
+			const input: AiTextGenerationInput = {
+				prompt,
+				max_tokens: DIGEST_MAX_TOKENS,
+				response_format: { type: 'json_schema', json_schema: DIGEST_JSON_SCHEMA },
+			};
+			const aiResponse = (await env.AI.run(AI_MODEL as keyof AiModels, input)) as { response?: unknown };
+
+			const parsed = parseModelJson(aiResponse.response);
+			const errors = parsed.error ? [parsed.error] : validateJsonSchema(parsed.value, DIGEST_JSON_SCHEMA);
+			if (errors.length > 0) {
+				throw new Error(`Invalid digest output: ${errors.join('; ')}`);
+			}
+
+			const value = parsed.value as Omit<DigestContent, 'notable_quotes'> & { notable_quotes: { feedback_id: number; why: string }[] };
+			return {
+				content: {
+					...value,
+					notable_quotes: value.notable_quotes
+						.filter((picked) => candidatesById.has(picked.feedback_id))
+						.map((picked) => quote(candidatesById.get(picked.feedback_id)!, picked.why)),
+				},
+				model: AI_MODEL,
+			};
+		} catch (error) {
+			console.error('Digest writing error:', error);
+		}
+	}
+
+	const negative = stats.sentiment_counts.negative ?? 0;
+	return {
+		content: {
+			headline: `${stats.total} feedback items, ${negative} negative (previous period: ${stats.previous_total})`,
+			summary: '',
+			top_themes: stats.themes.map((theme) => `${theme.name}: ${theme.size} items, ${theme.negative} negative`),
+			got_worse: stats.tags
+				.filter((tag) => tag.negative > 0 && tag.count > tag.previous_count)
+				.map((tag) => `${tag.tag}: ${tag.previous_count} to ${tag.count} items`),
+			notable_quotes: candidates.slice(0, 3).map((candidate) => quote(candidate, '')),
+			new_issues: [...stats.new_themes, ...stats.tags.filter((tag) => tag.previous_count === 0).map((tag) => tag.tag)].slice(0, 5),
+		},
+		model: null,
+	};
 }
 
-export default {
-	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-		const url = new URL(request.url);
-		const path = url.pathname;
-		const method = request.method;
+function serializeDigest(row: DigestRow) {
+	return { ...row, content: JSON.parse(row.content) as DigestContent, stats: JSON.parse(row.stats) as DigestStats };
+}
 
-		// CORS headers for API routes
-		const corsHeaders = {
-			'Access-Control-Allow-Origin': '*',
-			'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
-			'Access-Control-Allow-Headers': 'Content-Type',
-		};
+function renderDigestMarkdown(row: DigestRow): string {
+	const content = JSON.parse(row.content) as DigestContent;
+	const stats = JSON.parse(row.stats) as DigestStats;
+	const dayMs = 24 * 60 * 60 * 1000;
+	const first = new Date(row.period_start).toISOString().split('T')[0];
+	const last = new Date(row.period_end - dayMs).toISOString().split('T')[0];
+	const section = (title: string, lines: string[]) => [`## ${title}`, '', ...(lines.length > 0 ? lines : ['- Nothing to report']), ''];
 
-		if (method === 'OPTIONS') {
-			return new Response(null, { headers: corsHeaders });
-		}
+	return [
+		`# ${row.period === 'daily' ? 'Daily' : 'Weekly'} feedback digest: ${first === last ? first : `${first} to ${last}`}`,
+		'',
+		`**${content.headline}**`,
+		'',
+		...(content.summary ? [content.summary, ''] : []),
+		`_${stats.total} items (previous period: ${stats.previous_total}) · ` +
+			['positive', 'neutral', 'negative'].map((sentiment) => `${stats.sentiment_counts[sentiment] ?? 0} ${sentiment}`).join(' · ') +
+			'_',
+		'',
+		...section('Top themes', content.top_themes.map((line) => `- ${line}`)),
+		...section('What got worse', content.got_worse.map((line) => `- ${line}`)),
+		...section(
+			'Notable quotes',
+			content.notable_quotes.flatMap((quote) => [
+				`> ${quote.quote.replace(/\n+/g, ' ')}`,
+				'>',
+				`> — ${quote.source}, #${quote.feedback_id}${quote.why ? `: ${quote.why}` : ''}`,
+				'',
+			])
+		),
+		...section('New issues', content.new_issues.map((line) => `- ${line}`)),
+	]
+		.join('\n')
+		.trimEnd() + '\n';
+}
 
-		try {
-			// Route: Dashboard (GET /)
-			if (path === '/' && method === 'GET') {
-				// Emit analytics event
-				env.ANALYTICS?.writeDataPoint({
-					blobs: ['dashboard_view', '/', 'all', 'success'],
-					doubles: [1, 0],
-					indexes: [new Date().toISOString().split('T')[0]],
-				});
+// Mark a row as failed after the queue gave up on it
+async function markAnalysisFailed(env: Env, feedbackId: number): Promise<void> {
+	const row = await env.DB.prepare(
+		`UPDATE feedback 
+		SET analysis_status = 'failed', analysis_error = COALESCE(analysis_error, 'Analysis retries exhausted')
+		WHERE id = ? AND analysis_status = 'pending'
+		RETURNING source`
+	)
+		.bind(feedbackId)
+		.first<{ source: string }>();
 
-				return new Response(getDashboardHTML(), {
-					headers: { 'Content-Type': 'text/html' },
-				});
-			}
+	if (!row) {
+		return;
+	}
 
-			// Route: Submit feedback (POST /api/feedback)
-			if (path === '/api/feedback' && method === 'POST') {
-				const startTime = Date.now();
-				
-				// Emit analytics event for ingestion
-				env.ANALYTICS?.writeDataPoint({
-					blobs: ['ingest_received', '/api/feedback', 'unknown', 'pending'],
-					doubles: [1, 0],
-					indexes: [new Date().toISOString().split('T')[0]],
-				});
+	// Emit analytics event for AI failure
+	env.ANALYTICS?.writeDataPoint({
+		blobs: ['ai_failed', '/api/feedback', row.source, 'error'],
+		doubles: [1, 0],
+		indexes: [new Date().toISOString().split('T')[0]],
+	});
+}
 
-				const body = await request.json() as { source: string; text: string };
-				const { source, text } = body;
+// Statements that apply a reviewer's values to an analyzed row and log each changed field, for DB.batch.
+// Confirming a value the row already has marks it reviewed without logging a correction.
+function buildCorrectionStatements(env: Env, row: FeedbackRow, body: Partial<AIAnalysis>, reviewer: string): D1PreparedStatement[] {
+	const now = Date.now();
+	const currentTags: string[] = row.tags ? JSON.parse(row.tags) : [];
+	const requestedTags = body.tags ? normalizeTags(body.tags) : currentTags;
+	const tagsChanged = requestedTags.length !== currentTags.length || requestedTags.some((tag) => !currentTags.includes(tag));
 
-				if (!source || !text) {
-					return new Response(
-						JSON.stringify({ error: 'Missing required fields: source, text' }),
-						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-					);
-				}
+	const current = { sentiment: row.sentiment ?? null, urgency: row.urgency ?? null, tags: currentTags, summary: row.summary ?? null };
+	const next = {
+		sentiment: body.sentiment ?? current.sentiment,
+		urgency: body.urgency ?? current.urgency,
+		tags: tagsChanged ? requestedTags : currentTags,
+		summary: body.summary ?? current.summary,
+	};
+	const changed = CORRECTABLE_FIELDS.filter((field) => (field === 'tags' ? tagsChanged : next[field] !== current[field]));
 
-				const createdAt = Date.now();
+	return [
+		env.DB.prepare('UPDATE feedback SET sentiment = ?, urgency = ?, tags = ?, summary = ?, reviewed_by = ?, reviewed_at = ? WHERE id = ?').bind(
+			next.sentiment,
+			next.urgency,
+			tagsChanged ? JSON.stringify(next.tags) : row.tags ?? null,
+			next.summary,
+			reviewer,
+			now,
+			row.id
+		),
+		...changed.map((field) =>
+			env.DB.prepare(
+				'INSERT INTO feedback_corrections (feedback_id, field, previous_value, value, corrected_by, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+			).bind(row.id, field, JSON.stringify(current[field]), JSON.stringify(next[field]), reviewer, now)
+		),
+		...(tagsChanged ? buildReplaceTagsStatements(env, row.id!, next.tags) : []),
+	];
+}
 
-				// Insert pending row into D1
-				const insertResult = await env.DB.prepare(
-					'INSERT INTO feedback (source, text, created_at, analysis_status) VALUES (?, ?, ?, ?)'
-				)
-					.bind(source, text, createdAt, 'pending')
-					.run();
+// Statements that move a row through the triage lifecycle and record the status change, for DB.batch.
+// Closing an item stamps resolved_at; reopening it clears it.
+function buildTriageStatements(
+	env: Env,
+	row: FeedbackRow,
+	changes: { status?: TriageStatus; assignee?: string | null },
+	actor: string
+): D1PreparedStatement[] {
+	const now = Date.now();
+	const statements: D1PreparedStatement[] = [];
 
-				const feedbackId = insertResult.meta.last_row_id;
+	if (changes.status !== undefined && changes.status !== row.status) {
+		const closing = CLOSED_TRIAGE_STATUSES.includes(changes.status);
+		const wasClosed = CLOSED_TRIAGE_STATUSES.includes(row.status);
+		statements.push(
+			env.DB.prepare('UPDATE feedback SET status = ?, resolved_at = ? WHERE id = ?').bind(
+				changes.status,
+				closing ? (wasClosed ? row.resolved_at ?? now : now) : null,
+				row.id
+			),
+			env.DB.prepare('INSERT INTO feedback_status_history (feedback_id, from_status, to_status, changed_by, created_at) VALUES (?, ?, ?, ?, ?)').bind(
+				row.id,
+				row.status,
+				changes.status,
+				actor,
+				now
+			)
+		);
+	}
 
-				// Run AI analysis
-				let analysis: AIAnalysis | null = null;
-				let aiLatency = 0;
-				let analysisError: string | null = null;
-				let aiModel = '';
+	if (changes.assignee !== undefined) {
+		statements.push(env.DB.prepare('UPDATE feedback SET assignee = ? WHERE id = ?').bind(changes.assignee, row.id));
+	}
 
-				try {
-					const aiStartTime = Date.now();
-					
-					// Build prompt for Workers AI
-					const prompt = `Analyze the following feedback and return ONLY valid JSON with no additional text:
-{
-  "sentiment": "positive|neutral|negative",
-  "urgency": 1-5,
-  "tags": ["tag1", "tag2", "tag3", "tag4", "tag5"],
-  "summary": "1-2 line summary"
+	return statements;
 }
 
-Feedback: ${text}
+// Median time from creation to closing over closed rows in range, null when none are closed
+async function getMedianResolutionMs(env: Env, range: SqlFilter, closedCount: number): Promise<number | null> {
+	if (closedCount === 0) {
+		return null;
+	}
 
-Return only the JSON object:`;
+	// The middle row, or the two middle rows when the count is even
+	const middle = await env.DB.prepare(
+		`SELECT resolved_at - created_at AS duration FROM feedback
+		WHERE resolved_at IS NOT NULL AND ${range.where}
+		ORDER BY duration LIMIT ? OFFSET ?`
+	)
+		.bind(...range.binds, 2 - (closedCount % 2), Math.floor((closedCount - 1) / 2))
+		.all<{ duration: number }>();
 
-					const aiResponse = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
-						prompt,
-						max_tokens: 300,
-					});
+	return middle.results.reduce((sum, row) => sum + row.duration, 0) / middle.results.length;
+}
 
-					aiLatency = Date.now() - aiStartTime;
-					aiModel = '@cf/meta/llama-3.1-8b-instruct';
+// Agreement counts as rates of the reviewed rows
+function summarizeAccuracy(counts: AccuracyCounts) {
+	const field = (agreed: number) => ({ agreed, rate: counts.reviewed > 0 ? agreed / counts.reviewed : null });
+	return {
+		reviewed: counts.reviewed,
+		sentiment: field(counts.sentiment),
+		urgency: field(counts.urgency),
+		tags: field(counts.tags),
+		summary: field(counts.summary),
+	};
+}
 
-					// Parse AI response
-					const responseText = aiResponse.response as string;
-					
-					// Try to extract JSON from response (handle cases where model adds extra text)
-					let jsonMatch = responseText.match(/\{[\s\S]*\}/);
-					if (jsonMatch) {
-						const parsed = JSON.parse(jsonMatch[0]) as AIAnalysis;
-						
-						// Validate and normalize
-						analysis = {
-							sentiment: parsed.sentiment?.toLowerCase() || 'neutral',
-							urgency: Math.max(1, Math.min(5, parsed.urgency || 3)),
-							tags: (parsed.tags || []).slice(0, 5),
-							summary: parsed.summary || 'No summary available',
-						};
-
-						// Ensure sentiment is one of the valid values
-						if (!['positive', 'neutral', 'negative'].includes(analysis.sentiment)) {
-							analysis.sentiment = 'neutral';
-						}
-					} else {
-						throw new Error('No JSON found in AI response');
-					}
-				} catch (error) {
-					analysisError = error instanceof Error ? error.message : 'Unknown error';
-					console.error('AI analysis error:', error);
-				}
+// Tags are stored lowercased and trimmed so filters match exactly
+function normalizeTag(tag: string): string {
+	return tag.trim().toLowerCase();
+}
 
-				// Update row with analysis results
-				if (analysis) {
-					await env.DB.prepare(
-						`UPDATE feedback 
-						SET sentiment = ?, urgency = ?, tags = ?, summary = ?, 
-						    ai_model = ?, ai_latency_ms = ?, analysis_status = 'done'
-						WHERE id = ?`
-					)
-						.bind(
-							analysis.sentiment,
-							analysis.urgency,
-							JSON.stringify(analysis.tags),
-							analysis.summary,
-							aiModel,
-							aiLatency,
-							feedbackId
-						)
-						.run();
-
-					// Emit analytics event for successful AI completion
-					env.ANALYTICS?.writeDataPoint({
-						blobs: ['ai_completed', '/api/feedback', source, analysis.sentiment],
-						doubles: [1, aiLatency],
-						indexes: [new Date().toISOString().split('T')[0]],
-					});
-				} else {
-					// Mark as failed
-					await env.DB.prepare(
-						`UPDATE feedback 
-						SET analysis_status = 'failed', analysis_error = ?
-						WHERE id = ?`
-					)
-						.bind(analysisError, feedbackId)
-						.run();
-
-					// Emit analytics event for AI failure
-					env.ANALYTICS?.writeDataPoint({
-						blobs: ['ai_failed', '/api/feedback', source, 'error'],
-						doubles: [1, 0],
-						indexes: [new Date().toISOString().split('T')[0]],
-					});
-				}
+function normalizeTags(tags: unknown[]): string[] {
+	const normalized = tags.filter((tag): tag is string => typeof tag === 'string').map(normalizeTag);
+	return Array.from(new Set(normalized.filter((tag) => tag !== '')));
+}
 
-				// Fetch the complete row to return
-				const result = await env.DB.prepare('SELECT * FROM feedback WHERE id = ?')
-					.bind(feedbackId)
-					.first<FeedbackRow>();
+// Statements that replace a row's entries in feedback_tags, for use inside DB.batch
+function buildReplaceTagsStatements(env: Env, feedbackId: number, tags: string[]): D1PreparedStatement[] {
+	return [
+		env.DB.prepare('DELETE FROM feedback_tags WHERE feedback_id = ?').bind(feedbackId),
+		...tags.map((tag) => env.DB.prepare('INSERT OR IGNORE INTO feedback_tags (feedback_id, tag) VALUES (?, ?)').bind(feedbackId, tag)),
+	];
+}
 
-				return new Response(JSON.stringify(result), {
-					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-				});
-			}
+// The active configuration for a source: its own if one is active, otherwise the default
+async function getActiveAnalyzerConfig(env: Env, source: string): Promise<AnalyzerConfigRow> {
+	const config = await env.DB.prepare(
+		`SELECT * FROM analyzer_configs WHERE active = 1 AND scope IN (?, ?) ORDER BY scope = ? ASC LIMIT 1`
+	)
+		.bind(source, ANALYZER_DEFAULT_SCOPE, ANALYZER_DEFAULT_SCOPE)
+		.first<AnalyzerConfigRow>();
 
-			// Route: Get feedback list (GET /api/feedback)
-			if (path === '/api/feedback' && method === 'GET') {
-				const limit = parseInt(url.searchParams.get('limit') || '50');
-				const sources = url.searchParams.getAll('source');
-				const sentiments = url.searchParams.getAll('sentiment');
-				const urgencies = url.searchParams.getAll('urgency');
-				const tags = url.searchParams.getAll('tag');
+	if (!config) {
+		throw new Error('No active analyzer configuration');
+	}
+	return config;
+}
 
-				let query = 'SELECT * FROM feedback WHERE 1=1';
-				const binds: any[] = [];
+// Validate admin analyzer config input
+function validateAnalyzerConfigInput(body: Partial<AnalyzerConfigRow>): string | null {
+	if (body.scope !== undefined && (typeof body.scope !== 'string' || !body.scope.trim())) {
+		return 'scope must be a source name, or "*" for the default';
+	}
+	if (typeof body.model !== 'string' || !/^@(cf|hf)\/\S+$/.test(body.model)) {
+		return 'model must be a Workers AI model id such as @cf/meta/llama-3.1-8b-instruct';
+	}
+	if (typeof body.prompt_template !== 'string' || !body.prompt_template.includes(ANALYZER_TEXT_PLACEHOLDER)) {
+		return `prompt_template must contain ${ANALYZER_TEXT_PLACEHOLDER}`;
+	}
+	if (body.max_tokens !== undefined && (!Number.isInteger(body.max_tokens) || body.max_tokens < 1 || body.max_tokens > ANALYZER_MAX_TOKENS_LIMIT)) {
+		return `max_tokens must be an integer from 1 to ${ANALYZER_MAX_TOKENS_LIMIT}`;
+	}
+	if (
+		body.temperature !== undefined &&
+		body.temperature !== null &&
+		(typeof body.temperature !== 'number' || body.temperature < 0 || body.temperature > ANALYZER_MAX_TEMPERATURE)
+	) {
+		return `temperature must be a number from 0 to ${ANALYZER_MAX_TEMPERATURE}`;
+	}
+	return null;
+}
 
-				if (sources.length > 0) {
-					const placeholders = sources.map(() => '?').join(',');
-					query += ` AND source IN (${placeholders})`;
-					binds.push(...sources);
-				}
+// Make one version the active configuration of its scope, replacing the current one
+async function activateAnalyzerConfig(env: Env, config: AnalyzerConfigRow): Promise<void> {
+	await env.DB.batch([
+		env.DB.prepare('UPDATE analyzer_configs SET active = 0 WHERE scope = ? AND active = 1').bind(config.scope),
+		env.DB.prepare('UPDATE analyzer_configs SET active = 1, activated_at = ? WHERE id = ?').bind(Date.now(), config.id),
+	]);
+}
 
-				if (sentiments.length > 0) {
-					const placeholders = sentiments.map(() => '?').join(',');
-					query += ` AND sentiment IN (${placeholders})`;
-					binds.push(...sentiments);
-				}
+// Call the model for an analysis and validate it against ANALYSIS_JSON_SCHEMA. Invalid output gets one
+// repair prompt listing the errors; fields still invalid after that are defaulted and reported.
+// Throws when neither response is a JSON object, so the queue consumer retries.
+async function analyzeFeedbackText(env: Env, text: string, config: AnalyzerConfigRow): Promise<AnalysisResult> {
+	const prompt = config.prompt_template.split(ANALYZER_TEXT_PLACEHOLDER).join(text);
 
-				if (urgencies.length > 0) {
-					const placeholders = urgencies.map(() => '?').join(',');
-					query += ` AND urgency IN (${placeholders})`;
-					binds.push(...urgencies.map(u => parseInt(u)));
-				}
+	const first = parseModelJson(await runAnalyzerModel(env, config, prompt));
+	const firstErrors = first.error ? [first.error] : validateJsonSchema(first.value, ANALYSIS_JSON_SCHEMA);
+	if (firstErrors.length === 0) {
+		return { analysis: toAnalysis(first.value), repaired: false, defaulted_fields: [], validation_errors: [] };
+	}
 
-				if (tags.length > 0) {
-					// Filter by tags - tags are stored as JSON array, so we need to check if any tag exists in the array
-					const tagConditions = tags.map(() => 'tags LIKE ?');
-					query += ' AND (' + tagConditions.join(' OR ') + ')';
-					binds.push(...tags.map(tag => `%"${tag}"%`));
-				}
+	const repairPrompt = `${prompt}
 
-				query += ' ORDER BY created_at DESC LIMIT ?';
-				binds.push(limit);
+Your previous answer was invalid:
+${firstErrors.map((error) => `- ${error}`).join('\n')}
 
-				const result = await env.DB.prepare(query)
-					.bind(...binds)
-					.all<FeedbackRow>();
+Previous answer:
+${first.raw}
 
-				return new Response(JSON.stringify(result.results), {
-					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-				});
-			}
+Return only a JSON object that matches this JSON schema:
+${JSON.stringify(ANALYSIS_JSON_SCHEMA)}`;
 
-			// Route: Delete feedback (DELETE /api/feedback/:id)
-			if (path.startsWith('/api/feedback/') && method === 'DELETE') {
-				const feedbackId = parseInt(path.split('/').pop() || '0');
-				
-				if (!feedbackId || isNaN(feedbackId)) {
-					return new Response(
-						JSON.stringify({ error: 'Invalid feedback ID' }),
-						{ status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-					);
-				}
+	const second = parseModelJson(await runAnalyzerModel(env, config, repairPrompt));
+	const secondErrors = second.error ? [second.error] : validateJsonSchema(second.value, ANALYSIS_JSON_SCHEMA);
+	if (secondErrors.length === 0) {
+		return { analysis: toAnalysis(second.value), repaired: true, defaulted_fields: [], validation_errors: [] };
+	}
 
-				try {
-					// Delete the feedback
-					await env.DB.prepare('DELETE FROM feedback WHERE id = ?')
-						.bind(feedbackId)
-						.run();
+	// Keep whichever answer parsed, preferring the repaired one, and default only its invalid fields
+	const [parsed, errors] = second.value ? [second.value, secondErrors] : [first.value, firstErrors];
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error(`Invalid AI response after repair: ${secondErrors.join('; ')}`);
+	}
 
-					return new Response(
-						JSON.stringify({ success: true, message: 'Feedback deleted successfully' }),
-						{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-					);
-				} catch (error) {
-					return new Response(
-						JSON.stringify({ error: error instanceof Error ? error.message : 'Failed to delete feedback' }),
-						{ status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-					);
-				}
-			}
+	const candidate = parsed as Record<string, unknown>;
+	const merged: Record<string, unknown> = {};
+	const defaultedFields: string[] = [];
+	for (const [field, schema] of Object.entries(ANALYSIS_JSON_SCHEMA.properties)) {
+		if (validateJsonSchema(candidate[field], schema as JsonSchema, `$.${field}`).length === 0) {
+			merged[field] = candidate[field];
+		} else {
+			merged[field] = ANALYSIS_DEFAULTS[field as keyof AIAnalysis];
+			defaultedFields.push(field);
+		}
+	}
 
-			// Route: Get stats (GET /api/stats)
-			if (path === '/api/stats' && method === 'GET') {
-				// Get sentiment counts
-				const sentimentCounts = await env.DB.prepare(
-					'SELECT sentiment, COUNT(*) as count FROM feedback WHERE sentiment IS NOT NULL GROUP BY sentiment'
-				).all<{ sentiment: string; count: number }>();
+	return { analysis: toAnalysis(merged), repaired: true, defaulted_fields: defaultedFields, validation_errors: errors };
+}
 
-				// Get recent feedback for tag analysis
-				const recentFeedback = await env.DB.prepare(
-					'SELECT tags FROM feedback WHERE tags IS NOT NULL ORDER BY created_at DESC LIMIT 200'
-				).all<{ tags: string }>();
+// Run the configured model, in JSON mode when the model supports it
+async function runAnalyzerModel(env: Env, config: AnalyzerConfigRow, prompt: string): Promise<unknown> {
+	const input: AiTextGenerationInput = { prompt, max_tokens: config.max_tokens };
+	if (config.temperature !== null) {
+		input.temperature = config.temperature;
+	}
+	if (JSON_MODE_MODELS.includes(config.model)) {
+		input.response_format = { type: 'json_schema', json_schema: ANALYSIS_JSON_SCHEMA };
+	}
 
-				// Compute top tags
-				const tagCounts: Record<string, number> = {};
-				for (const row of recentFeedback.results) {
-					try {
-						const tags = JSON.parse(row.tags) as string[];
-						for (const tag of tags) {
-							tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-						}
-					} catch (e) {
-						// Skip invalid JSON
-					}
-				}
+	// JSON mode returns the parsed object in response, so it isn't typed as a string here
+	const aiResponse = (await env.AI.run(config.model as keyof AiModels, input)) as { response?: unknown };
 
-				const topTags = Object.entries(tagCounts)
-					.sort((a, b) => b[1] - a[1])
-					.slice(0, 10)
-					.map(([tag, count]) => ({ tag, count }));
+	return aiResponse.response;
+}
 
-				// Get average AI latency
-				const avgLatencyResult = await env.DB.prepare(
-					'SELECT AVG(ai_latency_ms) as avg_latency FROM feedback WHERE ai_latency_ms IS NOT NULL'
-				).first<{ avg_latency: number }>();
+// JSON mode returns an object; otherwise the text must be a JSON document, optionally in a code fence
+function parseModelJson(response: unknown): { value?: unknown; raw: string; error?: string } {
+	if (response && typeof response === 'object') {
+		return { value: response, raw: JSON.stringify(response) };
+	}
 
-				// Get total count
-				const totalResult = await env.DB.prepare('SELECT COUNT(*) as total FROM feedback')
-					.first<{ total: number }>();
+	const raw = typeof response === 'string' ? response.trim() : '';
+	const unfenced = raw.replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+	try {
+		return { value: JSON.parse(unfenced), raw };
+	} catch {
+		return { raw, error: 'Response is not a valid JSON document' };
+	}
+}
 
-				const stats = {
-					sentiment_counts: sentimentCounts.results.reduce((acc, row) => {
-						acc[row.sentiment] = row.count;
-						return acc;
-					}, {} as Record<string, number>),
-					top_tags: topTags,
-					avg_ai_latency_ms: avgLatencyResult?.avg_latency || 0,
-					total_feedback: totalResult?.total || 0,
-				};
+// Validated output to AIAnalysis; tags still go through the usual normalization
+function toAnalysis(value: unknown): AIAnalysis {
+	const analysis = value as AIAnalysis;
+	return { ...analysis, tags: normalizeTags(analysis.tags) };
+}
 
-				return new Response(JSON.stringify(stats), {
-					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-				});
-			}
+// Validate a value against the JsonSchema subset; returns error messages with JSON paths
+function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+	const errors: string[] = [];
 
-			// Route: Seed mock data (POST /api/seed) - for development
-			if (path === '/api/seed' && method === 'POST') {
-				const mockFeedback = [
-					{ source: 'github', text: 'The API is too slow, takes forever to respond' },
-					{ source: 'support', text: 'Love the new dashboard design! Very intuitive.' },
-					{ source: 'twitter', text: 'Billing page has a bug, charges are incorrect' },
-					{ source: 'email', text: 'Documentation needs more examples for beginners' },
-					{ source: 'github', text: 'Great work on the authentication system!' },
-					{ source: 'support', text: 'Feature request: dark mode support' },
-					{ source: 'twitter', text: 'The mobile app crashes on iOS 17' },
-					{ source: 'email', text: 'Thank you for the quick response to my issue' },
-					{ source: 'github', text: 'Performance has improved significantly in v2.0' },
-					{ source: 'support', text: 'Need help with integration, API docs unclear' },
-				];
+	const actualType = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+	if (schema.type) {
+		const matches =
+			schema.type === 'integer'
+				? Number.isInteger(value)
+				: schema.type === 'number'
+					? typeof value === 'number' && Number.isFinite(value)
+					: actualType === schema.type;
+		if (!matches) {
+			return [`${path} must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}, got ${value === undefined ? 'nothing' : actualType}`];
+		}
+	}
 
-				const results = [];
-				for (const feedback of mockFeedback) {
-					const seedRequest = new Request('http://localhost/api/feedback', {
-						method: 'POST',
-						headers: { 'Content-Type': 'application/json' },
-						body: JSON.stringify(feedback),
-					});
-					
-					// Simulate the feedback submission
-					const createdAt = Date.now();
-					const insertResult = await env.DB.prepare(
-						'INSERT INTO feedback (source, text, created_at, analysis_status) VALUES (?, ?, ?, ?)'
-					)
-						.bind(feedback.source, feedback.text, createdAt, 'pending')
-						.run();
+	if (schema.enum && !schema.enum.includes(value)) {
+		errors.push(`${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+	}
 
-					results.push({ id: insertResult.meta.last_row_id, ...feedback });
-				}
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push(`${path} must be at least ${schema.minLength} characters`);
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			errors.push(`${path} must be at most ${schema.maxLength} characters`);
+		}
+	}
 
-				return new Response(
-					JSON.stringify({ message: `Seeded ${results.length} feedback entries`, results }),
-					{ headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-				);
-			}
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			errors.push(`${path} must be >= ${schema.minimum}`);
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			errors.push(`${path} must be <= ${schema.maximum}`);
+		}
+	}
 
-			// 404 for unknown routes
-			return new Response('Not Found', { status: 404 });
-		} catch (error) {
-			console.error('Error:', error);
-			return new Response(
-				JSON.stringify({ error: error instanceof Error ? error.message : 'Internal server error' }),
-				{ status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-			);
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push(`${path} must have at least ${schema.minItems} items`);
 		}
-	},
-} satisfies ExportedHandler<Env>;
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push(`${path} must have at most ${schema.maxItems} items`);
+		}
+		if (schema.items) {
+			value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${i}]`)));
+		}
+	}
+
+	if (actualType === 'object' && schema.properties) {
+		const object = value as Record<string, unknown>;
+		for (const field of schema.required || []) {
+			if (!(field in object)) {
+				errors.push(`${path}.${field} is required`);
+			}
+		}
+		for (const [field, fieldValue] of Object.entries(object)) {
+			if (schema.properties[field]) {
+				errors.push(...validateJsonSchema(fieldValue, schema.properties[field], `${path}.${field}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${field} is not allowed`);
+			}
+		}
+	}
+
+	return errors;
+}
 
 // Dashboard HTML
 function getDashboardHTML(): string {
@@ -432,6 +5048,26 @@ function getDashboardHTML(): string {
 			color: #888;
 			font-size: 14px;
 		}
+		.api-key-form {
+			display: flex;
+			gap: 10px;
+			margin-top: 15px;
+		}
+		.api-key-form input {
+			flex: 1;
+			max-width: 400px;
+			padding: 8px 12px;
+			border: 1px solid #2a2a2a;
+			border-radius: 6px;
+			font-size: 14px;
+			font-family: inherit;
+			background: #0f0f0f;
+			color: #e0e0e0;
+		}
+		.api-key-form input:focus {
+			outline: none;
+			border-color: #3a3a3a;
+		}
 		.stats-grid {
 			display: grid;
 			grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
@@ -619,6 +5255,56 @@ function getDashboardHTML(): string {
 			margin-bottom: 20px;
 			border: 1px solid #2a5a2a;
 		}
+		.themes-list {
+			list-style: none;
+		}
+		.themes-list li {
+			display: flex;
+			align-items: center;
+			gap: 12px;
+			padding: 8px 0;
+			border-bottom: 1px solid #2a2a2a;
+			font-size: 14px;
+		}
+		.themes-list li:last-child {
+			border-bottom: none;
+		}
+		.theme-link {
+			background: none;
+			border: none;
+			padding: 0;
+			color: #ffffff;
+			cursor: pointer;
+			font-size: 14px;
+			text-align: left;
+			flex: 1;
+		}
+		.theme-link:hover {
+			background: none;
+			text-decoration: underline;
+		}
+		.theme-meta {
+			color: #a0a0a0;
+			font-size: 12px;
+		}
+		.theme-growth-up {
+			color: #f87171;
+		}
+		.theme-growth-down {
+			color: #4ade80;
+		}
+		.digest-view {
+			margin-top: 12px;
+			padding: 12px;
+			background: #0f0f0f;
+			border: 1px solid #2a2a2a;
+			border-radius: 6px;
+			color: #e0e0e0;
+			font-size: 13px;
+			white-space: pre-wrap;
+			max-height: 400px;
+			overflow-y: auto;
+		}
 		.filter-section {
 			background: #1a1a1a;
 			padding: 20px;
@@ -626,11 +5312,36 @@ function getDashboardHTML(): string {
 			border: 1px solid #2a2a2a;
 			margin-bottom: 20px;
 		}
-		.filter-section h2 {
-			color: #ffffff;
-			font-weight: 500;
-			font-size: 18px;
-			margin-bottom: 15px;
+		.filter-section h2 {
+			color: #ffffff;
+			font-weight: 500;
+			font-size: 18px;
+			margin-bottom: 15px;
+		}
+		.search-group {
+			margin-bottom: 15px;
+		}
+		.search-group input {
+			width: 100%;
+			padding: 10px 12px;
+			border: 1px solid #2a2a2a;
+			border-radius: 6px;
+			font-size: 14px;
+			font-family: inherit;
+			background: #0f0f0f;
+			color: #e0e0e0;
+		}
+		.search-group input:focus {
+			outline: none;
+			border-color: #3a3a3a;
+		}
+		.search-group input::placeholder {
+			color: #666;
+		}
+		mark {
+			background: #3a3a1a;
+			color: #fbbf24;
+			border-radius: 2px;
 		}
 		.filters-grid {
 			display: grid;
@@ -756,6 +5467,15 @@ function getDashboardHTML(): string {
 			padding: 8px 16px;
 			font-size: 13px;
 		}
+		.export-format {
+			padding: 8px 12px;
+			border: 1px solid #2a2a2a;
+			border-radius: 6px;
+			font-size: 13px;
+			font-family: inherit;
+			background: #0f0f0f;
+			color: #e0e0e0;
+		}
 		.btn-secondary {
 			background: #0f0f0f;
 			border-color: #2a2a2a;
@@ -764,6 +5484,49 @@ function getDashboardHTML(): string {
 			background: #1a1a1a;
 			border-color: #3a3a3a;
 		}
+		.load-more {
+			text-align: center;
+			margin-top: 20px;
+		}
+		.btn-similar {
+			padding: 6px 12px;
+			font-size: 12px;
+			margin-right: 6px;
+		}
+		.similar-row td {
+			background: #0f0f0f;
+		}
+		.edit-row td {
+			background: #0f0f0f;
+		}
+		.edit-form {
+			display: flex;
+			flex-wrap: wrap;
+			align-items: center;
+			gap: 8px;
+		}
+		.edit-form input[name="summary"] {
+			flex: 1;
+			min-width: 200px;
+		}
+		.edit-form input[name="urgency"] {
+			width: 60px;
+		}
+		.similar-list {
+			list-style: none;
+			margin: 0;
+			padding: 0;
+		}
+		.similar-list li {
+			padding: 6px 0;
+			color: #a0a0a0;
+			font-size: 13px;
+		}
+		.similar-score {
+			display: inline-block;
+			min-width: 48px;
+			color: #60a5fa;
+		}
 		.btn-delete {
 			background: #3a1a1a;
 			border-color: #5a2a2a;
@@ -783,6 +5546,10 @@ function getDashboardHTML(): string {
 		<div class="header">
 			<h1>Feedback Radar</h1>
 			<p>Analyze and track customer feedback with AI-powered insights</p>
+			<form class="api-key-form" id="apiKeyForm">
+				<input type="password" id="apiKey" placeholder="API key (stored in this browser)" autocomplete="off">
+				<button type="submit" class="btn-secondary">Save Key</button>
+			</form>
 		</div>
 
 		<div class="stats-grid" id="statsGrid">
@@ -806,6 +5573,14 @@ function getDashboardHTML(): string {
 				<h3>Avg AI Latency</h3>
 				<div class="value" id="avgLatency">-</div>
 			</div>
+			<div class="stat-card">
+				<h3>Open / Resolved</h3>
+				<div class="value" id="openResolved">-</div>
+			</div>
+			<div class="stat-card">
+				<h3>Median Time to Resolve</h3>
+				<div class="value" id="medianResolution">-</div>
+			</div>
 		</div>
 
 		<div class="form-section">
@@ -830,8 +5605,22 @@ function getDashboardHTML(): string {
 			</form>
 		</div>
 
+		<div class="filter-section">
+			<h2>Top Themes This Week</h2>
+			<ul id="themesList" class="themes-list"><li class="theme-meta">Loading...</li></ul>
+		</div>
+
+		<div class="filter-section">
+			<h2>Digests</h2>
+			<ul id="digestsList" class="themes-list"><li class="theme-meta">Loading...</li></ul>
+			<pre id="digestView" class="digest-view" hidden></pre>
+		</div>
+
 		<div class="filter-section">
 			<h2>Filters</h2>
+			<div class="search-group">
+				<input type="search" id="filterSearch" placeholder="Search feedback text and summaries...">
+			</div>
 			<div class="filters-grid">
 				<div class="filter-group">
 					<label>Sentiment</label>
@@ -911,6 +5700,69 @@ function getDashboardHTML(): string {
 						</div>
 					</div>
 				</div>
+				<div class="filter-group">
+					<label>Theme</label>
+					<div class="filter-dropdown">
+						<button type="button" class="filter-dropdown-btn" data-filter="filterTheme">All Themes</button>
+						<div class="filter-dropdown-panel" id="filterTheme">
+							<div class="checkbox-group">
+								<!-- Themes will be populated from /api/themes -->
+							</div>
+						</div>
+					</div>
+				</div>
+				<div class="filter-group">
+					<label>Status</label>
+					<div class="filter-dropdown">
+						<button type="button" class="filter-dropdown-btn" data-filter="filterStatus">All Statuses</button>
+						<div class="filter-dropdown-panel" id="filterStatus">
+							<div class="checkbox-group">
+								<div class="checkbox-item">
+									<input type="checkbox" id="status-new" value="new">
+									<label for="status-new">New</label>
+								</div>
+								<div class="checkbox-item">
+									<input type="checkbox" id="status-triaged" value="triaged">
+									<label for="status-triaged">Triaged</label>
+								</div>
+								<div class="checkbox-item">
+									<input type="checkbox" id="status-in_progress" value="in_progress">
+									<label for="status-in_progress">In Progress</label>
+								</div>
+								<div class="checkbox-item">
+									<input type="checkbox" id="status-resolved" value="resolved">
+									<label for="status-resolved">Resolved</label>
+								</div>
+								<div class="checkbox-item">
+									<input type="checkbox" id="status-wont_fix" value="wont_fix">
+									<label for="status-wont_fix">Won't Fix</label>
+								</div>
+							</div>
+						</div>
+					</div>
+				</div>
+				<div class="filter-group">
+					<label>Assignee</label>
+					<div class="filter-dropdown">
+						<button type="button" class="filter-dropdown-btn" data-filter="filterAssignee">All Assignees</button>
+						<div class="filter-dropdown-panel" id="filterAssignee">
+							<div class="checkbox-group">
+								<!-- Assignees will be populated from /api/stats -->
+							</div>
+						</div>
+					</div>
+				</div>
+				<div class="filter-group">
+					<label>Language</label>
+					<div class="filter-dropdown">
+						<button type="button" class="filter-dropdown-btn" data-filter="filterLanguage">All Languages</button>
+						<div class="filter-dropdown-panel" id="filterLanguage">
+							<div class="checkbox-group">
+								<!-- Languages will be populated from /api/stats -->
+							</div>
+						</div>
+					</div>
+				</div>
 				<div class="filter-group">
 					<label>Tag</label>
 					<div class="filter-dropdown">
@@ -925,6 +5777,12 @@ function getDashboardHTML(): string {
 			</div>
 			<div class="filter-actions">
 				<button type="button" id="clearFilters" class="btn-secondary">Clear</button>
+				<select id="exportFormat" class="export-format">
+					<option value="csv">CSV</option>
+					<option value="ndjson">NDJSON</option>
+					<option value="json">JSON</option>
+				</select>
+				<button type="button" id="exportFeedback" class="btn-secondary">Export</button>
 			</div>
 		</div>
 
@@ -935,6 +5793,44 @@ function getDashboardHTML(): string {
 	</div>
 
 	<script>
+		// Every API call sends the API key saved in this browser
+		const API_KEY_STORAGE = 'feedbackRadarApiKey';
+		document.getElementById('apiKey').value = localStorage.getItem(API_KEY_STORAGE) || '';
+		document.getElementById('apiKeyForm').addEventListener('submit', (e) => {
+			e.preventDefault();
+			localStorage.setItem(API_KEY_STORAGE, document.getElementById('apiKey').value.trim());
+			loadStats();
+			loadFeedback();
+		});
+
+		function apiFetch(url, options = {}) {
+			const apiKey = localStorage.getItem(API_KEY_STORAGE);
+			const headers = Object.assign({}, options.headers, apiKey ? { Authorization: 'Bearer ' + apiKey } : {});
+			return fetch(url, Object.assign({}, options, { headers }));
+		}
+
+		const TRIAGE_LABELS = { new: 'New', triaged: 'Triaged', in_progress: 'In Progress', resolved: 'Resolved', wont_fix: "Won't Fix" };
+
+		// Everything that comes from feedback or the API is escaped before it goes into markup
+		function escapeHtml(value) {
+			return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+		}
+
+		// Only http(s) links are rendered, so a stored javascript: URL never becomes clickable
+		function safeUrl(value) {
+			try {
+				const url = new URL(value);
+				return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+			} catch {
+				return null;
+			}
+		}
+
+		// Pagination state for the "Latest Feedback" table
+		const FEEDBACK_PAGE_SIZE = 50;
+		let feedbackItems = [];
+		let nextCursor = null;
+
 		// Load stats and feedback on page load
 		loadStats();
 		loadFeedback();
@@ -942,7 +5838,10 @@ function getDashboardHTML(): string {
 		// Refresh every 10 seconds
 		setInterval(() => {
 			loadStats();
-			loadFeedback();
+			// Don't collapse the table back to the first page once more rows have been loaded
+			if (feedbackItems.length <= FEEDBACK_PAGE_SIZE) {
+				loadFeedback();
+			}
 		}, 10000);
 
 		// Dropdown toggle functionality
@@ -1009,14 +5908,30 @@ function getDashboardHTML(): string {
 			document.querySelectorAll('#filterSource input[type="checkbox"]').forEach(cb => cb.checked = false);
 			document.querySelectorAll('#filterUrgency input[type="checkbox"]').forEach(cb => cb.checked = false);
 			document.querySelectorAll('#filterTag input[type="checkbox"]').forEach(cb => cb.checked = false);
+			document.querySelectorAll('#filterTheme input[type="checkbox"]').forEach(cb => cb.checked = false);
+			document.querySelectorAll('#filterLanguage input[type="checkbox"]').forEach(cb => cb.checked = false);
+			document.querySelectorAll('#filterStatus input[type="checkbox"]').forEach(cb => cb.checked = false);
+			document.querySelectorAll('#filterAssignee input[type="checkbox"]').forEach(cb => cb.checked = false);
+			document.getElementById('filterSearch').value = '';
 			// Update button texts
 			updateButtonText('filterSentiment', 'All Sentiments');
 			updateButtonText('filterSource', 'All Sources');
 			updateButtonText('filterUrgency', 'All Urgency Levels');
 			updateButtonText('filterTag', 'All Tags');
+			updateButtonText('filterTheme', 'All Themes');
+			updateButtonText('filterLanguage', 'All Languages');
+			updateButtonText('filterStatus', 'All Statuses');
+			updateButtonText('filterAssignee', 'All Assignees');
 			loadFeedback();
 		});
 
+		// Search box: reload after the user stops typing
+		let searchTimeout = null;
+		document.getElementById('filterSearch').addEventListener('input', () => {
+			clearTimeout(searchTimeout);
+			searchTimeout = setTimeout(() => loadFeedback(), 300);
+		});
+
 		// Handle form submission
 		document.getElementById('feedbackForm').addEventListener('submit', async (e) => {
 			e.preventDefault();
@@ -1033,7 +5948,7 @@ function getDashboardHTML(): string {
 			};
 
 			try {
-				const response = await fetch('/api/feedback', {
+				const response = await apiFetch('/api/feedback', {
 					method: 'POST',
 					headers: { 'Content-Type': 'application/json' },
 					body: JSON.stringify(formData),
@@ -1044,60 +5959,55 @@ function getDashboardHTML(): string {
 					messageDiv.innerHTML = '<div class="success">Feedback submitted successfully! Analyzing...</div>';
 					document.getElementById('feedbackForm').reset();
 					
-					// Poll for analysis completion
-					const feedbackId = result.id;
-					let pollCount = 0;
-					const maxPolls = 20; // Max 20 polls (10 seconds)
-					
-					const pollInterval = setInterval(async () => {
-						pollCount++;
-						
-						try {
-							const checkResponse = await fetch('/api/feedback?limit=100');
-							const feedbackList = await checkResponse.json();
-							const submittedFeedback = feedbackList.find(f => f.id === feedbackId);
-							
-							if (submittedFeedback && submittedFeedback.analysis_status === 'done') {
-								clearInterval(pollInterval);
-								messageDiv.innerHTML = '';
-								loadStats();
-								loadFeedback();
-							} else if (submittedFeedback && submittedFeedback.analysis_status === 'failed') {
-								clearInterval(pollInterval);
-								messageDiv.innerHTML = '<div class="error">Analysis failed: ' + (submittedFeedback.analysis_error || 'Unknown error') + '</div>';
-								loadStats();
-								loadFeedback();
-							} else if (pollCount >= maxPolls) {
-								clearInterval(pollInterval);
-								messageDiv.innerHTML = '';
-								loadStats();
-								loadFeedback();
-							}
-						} catch (error) {
-							// If polling fails, just refresh and clear message
-							if (pollCount >= maxPolls) {
-								clearInterval(pollInterval);
-								messageDiv.innerHTML = '';
-								loadStats();
-								loadFeedback();
-							}
-						}
-					}, 500); // Poll every 500ms
+					// Wait for analysis completion without blocking the form
+					waitForAnalysis(result.id, messageDiv);
 				} else {
 					const error = await response.json();
-					messageDiv.innerHTML = '<div class="error">Error: ' + (error.error || 'Failed to submit') + '</div>';
+					messageDiv.innerHTML = '<div class="error">Error: ' + escapeHtml(error.error || 'Failed to submit') + '</div>';
 				}
 			} catch (error) {
-				messageDiv.innerHTML = '<div class="error">Error: ' + error.message + '</div>';
+				messageDiv.innerHTML = '<div class="error">Error: ' + escapeHtml(error.message) + '</div>';
 			} finally {
 				submitBtn.disabled = false;
 				submitBtn.textContent = 'Submit Feedback';
 			}
 		});
 
+		// Long-poll a single item until its analysis leaves pending
+		async function waitForAnalysis(feedbackId, messageDiv) {
+			const maxPolls = 3; // Each poll waits up to 20s on the server
+			
+			for (let pollCount = 0; pollCount < maxPolls; pollCount++) {
+				try {
+					const checkResponse = await apiFetch('/api/feedback/' + feedbackId + '?wait=20');
+					if (!checkResponse.ok) {
+						break;
+					}
+					const submittedFeedback = await checkResponse.json();
+					
+					if (submittedFeedback.analysis_status === 'failed') {
+						messageDiv.innerHTML = '<div class="error">Analysis failed: ' + escapeHtml(submittedFeedback.analysis_error || 'Unknown error') + '</div>';
+						loadStats();
+						loadFeedback();
+						return;
+					}
+					if (submittedFeedback.analysis_status !== 'pending') {
+						break;
+					}
+				} catch (error) {
+					// If polling fails, just refresh and clear message
+					break;
+				}
+			}
+			
+			messageDiv.innerHTML = '';
+			loadStats();
+			loadFeedback();
+		}
+
 		async function loadStats() {
 			try {
-				const response = await fetch('/api/stats');
+				const response = await apiFetch('/api/stats');
 				const stats = await response.json();
 
 				document.getElementById('totalFeedback').textContent = stats.total_feedback || 0;
@@ -1106,11 +6016,165 @@ function getDashboardHTML(): string {
 				document.getElementById('negativeCount').textContent = stats.sentiment_counts?.negative || 0;
 				document.getElementById('avgLatency').textContent = 
 					stats.avg_ai_latency_ms ? Math.round(stats.avg_ai_latency_ms) + 'ms' : '-';
+				document.getElementById('openResolved').textContent = (stats.open_count || 0) + ' / ' + (stats.resolved_count || 0);
+				document.getElementById('medianResolution').textContent = formatDuration(stats.median_resolution_ms);
+
+				// Keep the language filter's checked state across refreshes
+				const languageGroup = document.querySelector('#filterLanguage .checkbox-group');
+				const checkedLanguages = Array.from(languageGroup.querySelectorAll('input:checked')).map(cb => cb.value);
+				languageGroup.innerHTML = '';
+				Object.entries(stats.language_counts || {}).forEach(([language, count]) => {
+					const checkboxItem = document.createElement('div');
+					checkboxItem.className = 'checkbox-item';
+					const input = document.createElement('input');
+					input.type = 'checkbox';
+					input.id = 'language-' + language;
+					input.value = language;
+					input.checked = checkedLanguages.includes(language);
+					const label = document.createElement('label');
+					label.htmlFor = input.id;
+					label.textContent = language + ' (' + count + ')';
+					checkboxItem.appendChild(input);
+					checkboxItem.appendChild(label);
+					languageGroup.appendChild(checkboxItem);
+				});
+				updateButtonText('filterLanguage', 'All Languages');
+
+				// Assignees come from the same counts; "none" lists unassigned items
+				const assigneeGroup = document.querySelector('#filterAssignee .checkbox-group');
+				const checkedAssignees = Array.from(assigneeGroup.querySelectorAll('input:checked')).map(cb => cb.value);
+				assigneeGroup.innerHTML = '';
+				[['none', 'Unassigned'], ...Object.entries(stats.assignee_counts || {}).map(([assignee, count]) => [assignee, assignee + ' (' + count + ')'])].forEach(([value, text], i) => {
+					const checkboxItem = document.createElement('div');
+					checkboxItem.className = 'checkbox-item';
+					const input = document.createElement('input');
+					input.type = 'checkbox';
+					input.id = 'assignee-' + i;
+					input.value = value;
+					input.checked = checkedAssignees.includes(value);
+					const label = document.createElement('label');
+					label.htmlFor = input.id;
+					label.textContent = text;
+					checkboxItem.appendChild(input);
+					checkboxItem.appendChild(label);
+					assigneeGroup.appendChild(checkboxItem);
+				});
+				updateButtonText('filterAssignee', 'All Assignees');
 			} catch (error) {
 				console.error('Error loading stats:', error);
 			}
+			loadThemes();
+			loadDigests();
+		}
+
+		// Top themes of the last 7 days, also offered as a filter
+		async function loadThemes() {
+			try {
+				const response = await apiFetch('/api/themes?days=7');
+				const result = await response.json();
+				if (!response.ok) {
+					throw new Error(result.error || 'Request failed');
+				}
+
+				const list = document.getElementById('themesList');
+				list.innerHTML = result.themes.length === 0
+					? '<li class="theme-meta">No themes yet. Themes are clustered hourly from analyzed feedback.</li>'
+					: result.themes.slice(0, 5).map(theme => {
+						const mix = theme.sentiment_counts;
+						let growth = 'new';
+						if (theme.growth !== null) {
+							const percent = Math.round(theme.growth * 100);
+							growth = '<span class="' + (percent > 0 ? 'theme-growth-up' : 'theme-growth-down') + '">' + (percent > 0 ? '+' : '') + percent + '%</span>';
+						}
+						return '<li><button type="button" class="theme-link" data-theme="' + theme.id + '">' + escapeHtml(theme.name) + '</button>' +
+							'<span class="theme-meta">' + theme.size + ' items &middot; ' + mix.negative + ' negative / ' + mix.neutral + ' neutral / ' + mix.positive + ' positive &middot; ' + growth + '</span></li>';
+					}).join('');
+
+				// Keep the theme filter's checked state across refreshes
+				const themeGroup = document.querySelector('#filterTheme .checkbox-group');
+				const checkedThemes = Array.from(themeGroup.querySelectorAll('input:checked')).map(cb => cb.value);
+				themeGroup.innerHTML = '';
+				result.themes.forEach(theme => {
+					const checkboxItem = document.createElement('div');
+					checkboxItem.className = 'checkbox-item';
+					const input = document.createElement('input');
+					input.type = 'checkbox';
+					input.id = 'theme-' + theme.id;
+					input.value = String(theme.id);
+					input.checked = checkedThemes.includes(String(theme.id));
+					const label = document.createElement('label');
+					label.htmlFor = input.id;
+					label.textContent = theme.name + ' (' + theme.size + ')';
+					checkboxItem.appendChild(input);
+					checkboxItem.appendChild(label);
+					themeGroup.appendChild(checkboxItem);
+				});
+				updateButtonText('filterTheme', 'All Themes');
+			} catch (error) {
+				console.error('Error loading themes:', error);
+			}
+		}
+
+		// Clicking a top theme filters the table to it
+		document.getElementById('themesList').addEventListener('click', (e) => {
+			const themeId = e.target.getAttribute && e.target.getAttribute('data-theme');
+			if (!themeId) return;
+			document.querySelectorAll('#filterTheme input[type="checkbox"]').forEach(cb => cb.checked = cb.value === themeId);
+			updateButtonText('filterTheme', 'All Themes');
+			loadFeedback();
+		});
+
+		function formatDuration(ms) {
+			if (ms === null || ms === undefined) return '-';
+			const hours = ms / 3600000;
+			return hours < 48 ? Math.round(hours * 10) / 10 + 'h' : Math.round(hours / 24 * 10) / 10 + 'd';
+		}
+
+		// Latest daily and weekly digests; clicking one shows its markdown
+		async function loadDigests() {
+			try {
+				const response = await apiFetch('/api/digests?limit=5');
+				const digests = await response.json();
+				if (!response.ok) {
+					throw new Error(digests.error || 'Request failed');
+				}
+
+				const list = document.getElementById('digestsList');
+				list.innerHTML = digests.length === 0
+					? '<li class="theme-meta">No digests yet. The daily digest is written at 08:00 UTC, the weekly one on Mondays.</li>'
+					: '';
+				digests.forEach(digest => {
+					const item = document.createElement('li');
+					const link = document.createElement('button');
+					link.type = 'button';
+					link.className = 'theme-link';
+					link.setAttribute('data-digest', String(digest.id));
+					link.textContent = digest.headline;
+					const meta = document.createElement('span');
+					meta.className = 'theme-meta';
+					meta.textContent = digest.period + ' · ' + new Date(digest.period_start).toISOString().split('T')[0];
+					item.appendChild(link);
+					item.appendChild(meta);
+					list.appendChild(item);
+				});
+			} catch (error) {
+				console.error('Error loading digests:', error);
+			}
 		}
 
+		document.getElementById('digestsList').addEventListener('click', async (e) => {
+			const digestId = e.target.getAttribute && e.target.getAttribute('data-digest');
+			if (!digestId) return;
+			const view = document.getElementById('digestView');
+			try {
+				const response = await apiFetch('/api/digests/' + digestId + '?format=markdown');
+				view.textContent = response.ok ? await response.text() : 'Could not load digest';
+			} catch (error) {
+				view.textContent = 'Could not load digest';
+			}
+			view.hidden = false;
+		});
+
 		async function updateFilterOptions(feedback) {
 			// Extract unique values and counts from filtered feedback
 			const sentimentCounts = {};
@@ -1275,7 +6339,11 @@ function getDashboardHTML(): string {
 				{ id: 'filterSentiment', defaultText: 'All Sentiments' },
 				{ id: 'filterSource', defaultText: 'All Sources' },
 				{ id: 'filterUrgency', defaultText: 'All Urgency Levels' },
-				{ id: 'filterTag', defaultText: 'All Tags' }
+				{ id: 'filterTag', defaultText: 'All Tags' },
+				{ id: 'filterTheme', defaultText: 'All Themes' },
+				{ id: 'filterLanguage', defaultText: 'All Languages' },
+				{ id: 'filterStatus', defaultText: 'All Statuses' },
+				{ id: 'filterAssignee', defaultText: 'All Assignees' }
 			];
 			
 			filterGroups.forEach(filter => {
@@ -1296,28 +6364,79 @@ function getDashboardHTML(): string {
 			});
 		}
 
-		async function loadFeedback() {
+		// Query string for the current filter state, shared by the table and the export
+		function buildFilterParams() {
+			const getCheckedValues = (groupId) => {
+				const checkboxes = document.querySelectorAll('#' + groupId + ' input[type="checkbox"]:checked');
+				return Array.from(checkboxes).map(cb => cb.value);
+			};
+			
+			const params = new URLSearchParams();
+			getCheckedValues('filterSentiment').forEach(s => params.append('sentiment', s));
+			getCheckedValues('filterSource').forEach(s => params.append('source', s));
+			getCheckedValues('filterUrgency').forEach(u => params.append('urgency', u));
+			getCheckedValues('filterTag').forEach(t => params.append('tag', t));
+			getCheckedValues('filterTheme').forEach(t => params.append('theme', t));
+			getCheckedValues('filterLanguage').forEach(l => params.append('language', l));
+			getCheckedValues('filterStatus').forEach(s => params.append('status', s));
+			getCheckedValues('filterAssignee').forEach(a => params.append('assignee', a));
+			const search = document.getElementById('filterSearch').value.trim();
+			if (search) {
+				params.set('q', search);
+			}
+			return params;
+		}
+
+		// Download every row matching the current filters
+		document.getElementById('exportFeedback').addEventListener('click', async () => {
+			const exportBtn = document.getElementById('exportFeedback');
+			const format = document.getElementById('exportFormat').value;
+			const params = buildFilterParams();
+			params.set('format', format);
+			
+			exportBtn.disabled = true;
+			exportBtn.textContent = 'Exporting...';
+			try {
+				const response = await apiFetch('/api/feedback/export?' + params.toString());
+				if (!response.ok) {
+					const error = await response.json();
+					throw new Error(error.error || 'Export failed');
+				}
+				const blob = await response.blob();
+				const link = document.createElement('a');
+				link.href = URL.createObjectURL(blob);
+				link.download = 'feedback-export.' + format;
+				link.click();
+				URL.revokeObjectURL(link.href);
+			} catch (error) {
+				alert('Error exporting feedback: ' + error.message);
+			} finally {
+				exportBtn.disabled = false;
+				exportBtn.textContent = 'Export';
+			}
+		});
+
+		async function loadFeedback(append = false) {
 			try {
-				// Get checked filter values
-				const getCheckedValues = (groupId) => {
-					const checkboxes = document.querySelectorAll('#' + groupId + ' input[type="checkbox"]:checked');
-					return Array.from(checkboxes).map(cb => cb.value);
-				};
-				
-				const sentiments = getCheckedValues('filterSentiment');
-				const sources = getCheckedValues('filterSource');
-				const urgencies = getCheckedValues('filterUrgency');
-				const tags = getCheckedValues('filterTag');
-				
 				// Build query string
-				const params = new URLSearchParams({ limit: '50' });
-				sentiments.forEach(s => params.append('sentiment', s));
-				sources.forEach(s => params.append('source', s));
-				urgencies.forEach(u => params.append('urgency', u));
-				tags.forEach(t => params.append('tag', t));
+				const params = buildFilterParams();
+				const search = params.get('q');
+				params.set('limit', String(FEEDBACK_PAGE_SIZE));
+				if (search) {
+					params.set('sort', 'relevance');
+				}
+				if (append && nextCursor) {
+					params.set('cursor', nextCursor);
+				}
 				
-				const response = await fetch('/api/feedback?' + params.toString());
-				const feedback = await response.json();
+				const response = await apiFetch('/api/feedback?' + params.toString());
+				const page = await response.json();
+				if (!response.ok) {
+					throw new Error(page.error || 'Request failed');
+				}
+				feedbackItems = append ? feedbackItems.concat(page.items) : page.items;
+				nextCursor = page.next_cursor;
+				const feedback = feedbackItems;
 
 				// Update filter options based on current filtered results
 				await updateFilterOptions(feedback);
@@ -1325,54 +6444,106 @@ function getDashboardHTML(): string {
 				const listDiv = document.getElementById('feedbackList');
 				
 				if (feedback.length === 0) {
-					listDiv.innerHTML = '<p>No feedback yet. Submit some feedback to get started!</p>';
+					listDiv.innerHTML = search
+						? '<p>No feedback matches your search.</p>'
+						: '<p>No feedback yet. Submit some feedback to get started!</p>';
 					return;
 				}
 
-				let html = '<table><thead><tr><th>ID</th><th>Source</th><th>Sentiment</th><th>Urgency</th><th>Tags</th><th>Summary</th><th>Text</th><th>Actions</th></tr></thead><tbody>';
+				let html = '<table><thead><tr><th>ID</th><th>Source</th><th>Sentiment</th><th>Urgency</th><th>Tags</th><th>Summary</th><th>Text</th><th>Status</th><th>Actions</th></tr></thead><tbody>';
 				
 				for (const item of feedback) {
 					const sentimentClass = item.sentiment ? 'sentiment-' + item.sentiment : '';
 					const sentimentBadge = item.sentiment 
-						? '<span class="sentiment-badge ' + sentimentClass + '">' + item.sentiment + '</span>'
+						? '<span class="sentiment-badge ' + escapeHtml(sentimentClass) + '">' + escapeHtml(item.sentiment) + '</span>'
 						: '<span class="sentiment-badge">pending</span>';
+					// Rows where the model's output was invalid and defaults were filled in
+					const defaultedBadge = item.analysis_defaulted
+						? ' <span class="sentiment-badge" title="Model output failed validation; some fields are defaults">defaulted</span>'
+						: '';
+					// Reviewed rows show what the model said on hover
+					const reviewedBadge = item.reviewed_at
+						? ' <span class="tag" title="' + escapeHtml('Reviewed by ' + item.reviewed_by + '. Model: ' + item.ai_sentiment + ', urgency ' + item.ai_urgency +
+							', tags ' + (item.ai_tags ? JSON.parse(item.ai_tags).join(', ') || 'none' : 'none') + ', ' + item.ai_summary) + '">reviewed</span>'
+						: '';
 					
 					const tags = item.tags ? JSON.parse(item.tags) : [];
-					const tagsHtml = tags.map(tag => '<span class="tag">' + tag + '</span>').join('') || '-';
+					const tagsHtml = tags.map(tag => '<span class="tag">' + escapeHtml(tag) + '</span>').join('') || '-';
 					
-					const summary = item.summary || '-';
-					const urgency = item.urgency || '-';
-					const text = (item.text || '').substring(0, 100) + (item.text?.length > 100 ? '...' : '');
+					// Search results come with highlighted snippets, already escaped by the API
+					const summary = item.summary_snippet || escapeHtml(item.summary || '-');
+					const urgency = escapeHtml(item.urgency || '-');
+					// Translated rows show the English text, with the original on hover
+					const displayText = item.text_translated || item.text || '';
+					const text = item.text_snippet || escapeHtml(displayText.substring(0, 100) + (displayText.length > 100 ? '...' : ''));
+					const languageBadge = item.text_translated
+						? ' <span class="tag" title="' + escapeHtml(item.text || '') + '">' + escapeHtml(item.language) + '</span>'
+						: '';
 
-					const capitalizedSource = item.source ? item.source.charAt(0).toUpperCase() + item.source.slice(1) : '';
+					const capitalizedSource = item.source ? escapeHtml(item.source.charAt(0).toUpperCase() + item.source.slice(1)) : '';
 					
 					html += '<tr>';
 					html += '<td>' + item.id + '</td>';
-					html += '<td>' + capitalizedSource + '</td>';
-					html += '<td>' + sentimentBadge + '</td>';
+					// Feedback ingested from another system links back to where it was posted
+					const externalUrl = item.external_url ? safeUrl(item.external_url) : null;
+					const sourceHtml = externalUrl
+						? '<a href="' + escapeHtml(externalUrl) + '" target="_blank" rel="noopener">' + capitalizedSource + '</a>'
+						: capitalizedSource;
+					html += '<td>' + sourceHtml + '</td>';
+					html += '<td>' + sentimentBadge + defaultedBadge + reviewedBadge + '</td>';
 					html += '<td>' + urgency + '</td>';
 					html += '<td>' + tagsHtml + '</td>';
 					html += '<td>' + summary + '</td>';
-					html += '<td>' + text + '</td>';
-					html += '<td><button type="button" class="btn-delete" data-id="' + item.id + '">Delete</button></td>';
+					// Rows where PII was replaced with placeholders before storage
+					const redactions = item.redaction_counts ? JSON.parse(item.redaction_counts) : null;
+					const redactedBadge = redactions
+						? ' <span class="tag" title="' + escapeHtml(Object.entries(redactions).map(([detector, count]) => detector + ': ' + count).join(', ')) + '">redacted</span>'
+						: '';
+					html += '<td>' + text + languageBadge + redactedBadge + '</td>';
+					html += '<td>' + escapeHtml(TRIAGE_LABELS[item.status] || item.status) + (item.assignee ? '<br><span class="theme-meta">' + escapeHtml(item.assignee) + '</span>' : '') + '</td>';
+					html += '<td><button type="button" class="btn-secondary btn-similar" data-id="' + item.id + '">Similar</button>';
+					html += '<button type="button" class="btn-secondary btn-similar btn-edit" data-id="' + item.id + '">Edit</button>';
+					html += '<button type="button" class="btn-delete" data-id="' + item.id + '">Delete</button></td>';
 					html += '</tr>';
 				}
 				
 				html += '</tbody></table>';
+				if (nextCursor) {
+					html += '<div class="load-more"><button type="button" id="loadMore" class="btn-secondary">Load more</button></div>';
+				}
 				listDiv.innerHTML = html;
 				
+				const loadMoreBtn = document.getElementById('loadMore');
+				if (loadMoreBtn) {
+					loadMoreBtn.addEventListener('click', () => {
+						loadMoreBtn.disabled = true;
+						loadMoreBtn.textContent = 'Loading...';
+						loadFeedback(true);
+					});
+				}
+				
+				// Similar buttons toggle a row of semantically similar feedback under the item
+				document.querySelectorAll('.btn-similar:not(.btn-edit)').forEach(btn => {
+					btn.addEventListener('click', () => toggleSimilar(btn));
+				});
+
+				// Edit buttons open an inline form to correct the analysis
+				document.querySelectorAll('.btn-edit').forEach(btn => {
+					btn.addEventListener('click', () => toggleEdit(btn));
+				});
+
 				// Add delete button event listeners
 				document.querySelectorAll('.btn-delete').forEach(btn => {
 					btn.addEventListener('click', async function() {
 						const feedbackId = this.getAttribute('data-id');
 						if (!feedbackId) return;
 						
-						if (!confirm('Are you sure you want to delete this feedback? This action cannot be undone.')) {
+						if (!confirm('Are you sure you want to delete this feedback? An admin can restore it until it is purged.')) {
 							return;
 						}
 						
 						try {
-							const response = await fetch('/api/feedback/' + feedbackId, {
+							const response = await apiFetch('/api/feedback/' + feedbackId, {
 								method: 'DELETE'
 							});
 							
@@ -1391,7 +6562,114 @@ function getDashboardHTML(): string {
 				});
 			} catch (error) {
 				document.getElementById('feedbackList').innerHTML = 
-					'<div class="error">Error loading feedback: ' + error.message + '</div>';
+					'<div class="error">Error loading feedback: ' + escapeHtml(error.message) + '</div>';
+			}
+		}
+
+		// Inline triage and, for analyzed rows, corrections. Analysis values are only sent when edited,
+		// or on a save that changes nothing else, which confirms them as reviewed.
+		function toggleEdit(btn) {
+			const row = btn.closest('tr');
+			if (row.nextElementSibling?.classList.contains('edit-row')) {
+				row.nextElementSibling.remove();
+				return;
+			}
+
+			const item = feedbackItems.find(entry => String(entry.id) === btn.getAttribute('data-id'));
+			const analyzed = item.analysis_status === 'done';
+			const editRow = document.createElement('tr');
+			editRow.className = 'edit-row';
+			editRow.innerHTML = '<td colspan="' + row.children.length + '"><form class="edit-form">' +
+				(analyzed
+					? '<select name="sentiment"><option value="positive">positive</option><option value="neutral">neutral</option><option value="negative">negative</option></select>' +
+						'<input type="number" name="urgency" min="1" max="5" required>' +
+						'<input type="text" name="tags" placeholder="tags, comma separated">' +
+						'<input type="text" name="summary" maxlength="500" required>'
+					: '') +
+				'<select name="status">' + Object.entries(TRIAGE_LABELS).map(([value, label]) => '<option value="' + value + '">' + label + '</option>').join('') + '</select>' +
+				'<input type="text" name="assignee" maxlength="100" placeholder="assignee">' +
+				'<button type="submit" class="btn-similar">Save</button>' +
+				'<button type="button" class="btn-secondary btn-similar btn-cancel">Cancel</button></form></td>';
+			row.after(editRow);
+
+			const form = editRow.querySelector('form');
+			const tagsOf = (value) => (value ? JSON.parse(value) : []).join(', ');
+			if (analyzed) {
+				form.sentiment.value = item.sentiment;
+				form.urgency.value = item.urgency;
+				form.tags.value = tagsOf(item.tags);
+				form.summary.value = item.summary || '';
+			}
+			form.status.value = item.status;
+			form.assignee.value = item.assignee || '';
+			form.querySelector('.btn-cancel').addEventListener('click', () => editRow.remove());
+			form.addEventListener('submit', async (e) => {
+				e.preventDefault();
+				const body = {};
+				if (form.status.value !== item.status) {
+					body.status = form.status.value;
+				}
+				if (form.assignee.value.trim() !== (item.assignee || '')) {
+					body.assignee = form.assignee.value.trim() || null;
+				}
+				if (analyzed) {
+					const edited = form.sentiment.value !== item.sentiment || parseInt(form.urgency.value) !== item.urgency ||
+						form.tags.value !== tagsOf(item.tags) || form.summary.value !== (item.summary || '');
+					if (edited || Object.keys(body).length === 0) {
+						body.sentiment = form.sentiment.value;
+						body.urgency = parseInt(form.urgency.value);
+						body.tags = form.tags.value.split(',').map(tag => tag.trim()).filter(tag => tag);
+						body.summary = form.summary.value;
+					}
+				}
+				try {
+					const response = await apiFetch('/api/feedback/' + item.id, {
+						method: 'PATCH',
+						headers: { 'Content-Type': 'application/json' },
+						body: JSON.stringify(body),
+					});
+					if (!response.ok) {
+						const error = await response.json();
+						throw new Error(error.error || 'Request failed');
+					}
+					loadStats();
+					loadFeedback();
+				} catch (error) {
+					alert('Error saving feedback: ' + error.message);
+				}
+			});
+		}
+
+		async function toggleSimilar(btn) {
+			const row = btn.closest('tr');
+			if (row.nextElementSibling?.classList.contains('similar-row')) {
+				row.nextElementSibling.remove();
+				return;
+			}
+
+			const similarRow = document.createElement('tr');
+			similarRow.className = 'similar-row';
+			similarRow.innerHTML = '<td colspan="' + row.children.length + '">Finding similar feedback...</td>';
+			row.after(similarRow);
+
+			try {
+				const response = await apiFetch('/api/feedback/' + btn.getAttribute('data-id') + '/similar');
+				const result = await response.json();
+				if (!response.ok) {
+					throw new Error(result.error || 'Request failed');
+				}
+
+				const cell = similarRow.firstElementChild;
+				if (result.items.length === 0) {
+					cell.textContent = 'No similar feedback yet.';
+					return;
+				}
+				cell.innerHTML = '<ul class="similar-list">' + result.items.map(item =>
+					'<li><span class="similar-score">' + Math.round(item.score * 100) + '%</span>#' + item.id + ' ' +
+					escapeHtml(item.summary || (item.text || '').substring(0, 120)) + '</li>'
+				).join('') + '</ul>';
+			} catch (error) {
+				similarRow.firstElementChild.innerHTML = '<div class="error">Error loading similar feedback: ' + escapeHtml(error.message) + '</div>';
 			}
 		}
 	</script>
@@ -1,3 +1,11 @@
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {}
+	interface ProvidedEnv extends Env {
+		TEST_MIGRATIONS: D1Migration[];
+	}
+}
+
+// Raw .eml fixtures imported as strings
+declare module '*.eml?raw' {
+	const content: string;
+	export default content;
 }
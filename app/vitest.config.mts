@@ -1,11 +1,30 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import path from 'node:path';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
-	test: {
-		poolOptions: {
-			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+export default defineWorkersConfig(async () => {
+	// Read all migrations in the `migrations` directory so tests run against the real schema
+	const migrations = await readD1Migrations(path.join(__dirname, 'migrations'));
+
+	return {
+		test: {
+			setupFiles: ['./test/apply-migrations.ts'],
+			poolOptions: {
+				workers: {
+					wrangler: { configPath: './wrangler.jsonc' },
+					miniflare: {
+						bindings: {
+							TEST_MIGRATIONS: migrations,
+							ENVIRONMENT: 'development',
+							ADMIN_API_KEY: 'test-admin-key',
+							GITHUB_WEBHOOK_SECRET: 'test-github-secret',
+							// Tests count rate limits in D1 instead of the RateLimiter Durable Object
+							RATE_LIMIT_BACKEND: 'd1',
+							// Tests use the in-memory vector index instead of Vectorize
+							VECTORIZE_BACKEND: 'memory',
+						},
+					},
+				},
 			},
 		},
-	},
+	};
 });
@@ -4,11 +4,31 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "RateLimiter";
 	}
 	interface Env {
 		DB: D1Database;
 		ANALYTICS: AnalyticsEngineDataset;
 		AI: Ai;
+		ANALYSIS_QUEUE: Queue;
+		VECTORIZE: Vectorize;
+		ALERT_EMAIL: SendEmail;
+		ENVIRONMENT: string;
+		CORS_ALLOWED_ORIGINS: string;
+		ADMIN_API_KEY: string;
+		RATE_LIMIT_WINDOW_SECONDS: string;
+		RATE_LIMIT_PER_KEY: string;
+		RATE_LIMIT_PER_IP: string;
+		RATE_LIMIT_PER_SOURCE: string;
+		RATE_LIMIT_BACKEND: string;
+		VECTORIZE_BACKEND: string;
+		PII_REDACTION_DETECTORS: string;
+		PII_STORE_ORIGINAL: string;
+		ALERT_EMAIL_FROM: string;
+		DIGEST_WEBHOOK_URL: string;
+		DELETED_FEEDBACK_RETENTION_DAYS: string;
+		GITHUB_WEBHOOK_SECRET: string;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
 	}
 }
 interface Env extends Cloudflare.Env {}